@@ -0,0 +1,34 @@
+/**
+ * Test data for Cart E2E tests
+ * Contains the products and quantities used by add-to-cart flows
+ */
+
+import { TARGET_PRODUCT } from './productNavigationData';
+import { handleFromUrl } from '../helpers/catalog';
+
+const casePackOption = TARGET_PRODUCT.variantOptions.find((option) => /case pack/i.test(option.name));
+
+/**
+ * Product added to the cart in cart tests
+ * Sold in case packs, so quantities count cases rather than units
+ */
+export const CART_PRODUCT = {
+  name: TARGET_PRODUCT.name,
+  sku: TARGET_PRODUCT.sku,
+  url: TARGET_PRODUCT.url,
+  handle: handleFromUrl(TARGET_PRODUCT.url),
+  variantOptions: TARGET_PRODUCT.variantOptions,
+  // The last case pack the catalog sync found, so picking it changes the variant; null when the
+  // product has a single variant
+  casePack: casePackOption
+    ? { optionName: casePackOption.name, value: casePackOption.values[casePackOption.values.length - 1] }
+    : null,
+};
+
+/**
+ * Quantities used when adding and updating line items
+ */
+export const CART_QUANTITIES = {
+  initial: 2,
+  updated: 5,
+};
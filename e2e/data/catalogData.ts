@@ -0,0 +1,42 @@
+/**
+ * Catalog test data generated from the storefront JSON endpoints
+ * Source: https://richards-packaging-us.myshopify.com
+ * Regenerate with: npm run catalog:sync
+ */
+
+import type { CollectionData, ProductData } from './productNavigationData';
+
+export const CATALOG_COLLECTIONS: CollectionData[] = [
+  {
+    url: "/collections/glass-bottles-jars-1",
+    name: "Glass Bottles & Jars",
+    productCount: 41,
+    targetProduct: {
+      name: "12 oz Clear Glass Round Tall Mayonnaise Jar 70-450",
+      sku: "40220148",
+      url: "/products/12-oz-flt-70g-450-mayo-rp-1014-6",
+      specifications: {
+        capacity: "12 OZ",
+        material: "Glass",
+        color: "Clear Flint",
+        countryOfOrigin: "China"
+      },
+      variantOptions: []
+    }
+  }
+];
+
+export const CATALOG_PRODUCTS: ProductData[] = [
+  {
+    name: "12 oz Clear Glass Round Tall Mayonnaise Jar 70-450",
+    sku: "40220148",
+    url: "/products/12-oz-flt-70g-450-mayo-rp-1014-6",
+    specifications: {
+      capacity: "12 OZ",
+      material: "Glass",
+      color: "Clear Flint",
+      countryOfOrigin: "China"
+    },
+    variantOptions: []
+  }
+];
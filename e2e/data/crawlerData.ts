@@ -0,0 +1,24 @@
+/**
+ * Test data for the broken link and image crawler
+ * Limits how far the store crawl goes and which URLs it follows and checks
+ */
+
+import type { CrawlOptions } from '../helpers/crawler';
+import { config } from '../helpers/config';
+
+const STORE_HOST = new URL(config.storeUrl).host.replace(/\./g, '\\.');
+
+/**
+ * Store crawl: from the homepage into collections, then into their products
+ */
+export const STORE_CRAWL: CrawlOptions = {
+  startUrl: `${config.storeUrl}/`,
+  maxDepth: 2,
+  maxPages: 40,
+  // Collection and product pages only; filtered, sorted and paginated variants are skipped
+  follow: [/\/collections\/[^/?]+$/, /\/products\/[^/?]+$/],
+  // Store pages and theme/product images; third-party links are not checked
+  include: [new RegExp(`^https://${STORE_HOST}/`), /^https:\/\/cdn\.shopify\.com\//],
+  // Stateful or session pages that don't render without a customer
+  exclude: [/\/(cart|account|checkout|challenge)(\/|$|\?)/],
+};
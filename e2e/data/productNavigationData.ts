@@ -1,36 +1,106 @@
 /**
  * Test data for Product Navigation E2E tests
  * Contains constants for collections, products, and test URLs
+ * Collection and product details come from data/catalogData.ts, generated by npm run catalog:sync
  */
 
+import { CATALOG_COLLECTIONS, CATALOG_PRODUCTS } from './catalogData';
+
+/**
+ * Product detail data used by navigation tests
+ */
+export type ProductData = {
+  name: string;
+  sku: string;
+  url: string;
+  // Every Product Details attribute; the sync refreshes the four it can read from tags
+  // and options and keeps the others (e.g. neckFinish) as committed
+  specifications: {
+    capacity: string;
+    material: string;
+    color: string;
+    countryOfOrigin: string;
+    [attribute: string]: string;
+  };
+  // Options a variant is picked by (e.g. Case Pack); empty for single-variant products
+  variantOptions: { name: string; values: string[] }[];
+};
+
 /**
- * Glass Bottles & Jars collection data
+ * Collection data used by navigation tests
+ * `name` must match both the mega menu link text and the collection heading
  */
-export const GLASS_BOTTLES_JARS_COLLECTION = {
-  url: '/collections/glass-bottles-jars-1',
-  name: 'Glass Bottles & Jars',
-  productCount: 41,
+export type CollectionData = {
+  url: string;
+  name: string;
+  productCount: number;
+  // A product listed in the collection, for the collection-to-product flows
+  targetProduct?: ProductData;
 };
 
+/**
+ * Looks up a product synced from the store
+ * @param url - The product URL, e.g. '/products/some-handle'
+ * @returns The product data from data/catalogData.ts
+ */
+function getCatalogProduct(url: string): ProductData {
+  const product = CATALOG_PRODUCTS.find((entry) => entry.url === url);
+  if (!product) {
+    throw new Error(`Product "${url}" is not in data/catalogData.ts; run npm run catalog:sync`);
+  }
+  return product;
+}
+
 /**
  * Target product data for navigation tests
  * Product: 12 OZ FLT 70G/450 MAYONNAISE RP-1014 (6)
  */
-export const TARGET_PRODUCT = {
-  name: '12 oz Clear Glass Round Tall Mayonnaise Jar 70-450',
-  sku: '40220148',
-  url: '/products/12-oz-flt-70g-450-mayo-rp-1014-6',
-  specifications: {
-    capacity: '12 OZ',
-    material: 'Glass',
-    color: 'Clear Flint',
-    countryOfOrigin: 'China',
-  },
+export const TARGET_PRODUCT: ProductData = getCatalogProduct('/products/12-oz-flt-70g-450-mayo-rp-1014-6');
+
+/**
+ * Collection registry, as written by npm run catalog:sync
+ * Every collection listed here gets its own run of the navigation specs
+ */
+export const COLLECTIONS: CollectionData[] = CATALOG_COLLECTIONS;
+
+/**
+ * Looks up a registered collection by name
+ * @param name - The collection name
+ * @returns The registered collection data
+ */
+export function getCollection(name: string): CollectionData {
+  const collection = COLLECTIONS.find((entry) => entry.name === name);
+  if (!collection) {
+    throw new Error(`Collection "${name}" is not in the COLLECTIONS registry`);
+  }
+  return collection;
+}
+
+/**
+ * Minimum number of product cards shown on a full collection page
+ */
+export const MIN_PRODUCTS_PER_PAGE = 20;
+
+/**
+ * Filter (facet) options used on the Glass Bottles & Jars collection
+ * `specification` is the Product Details label each matching product must show
+ */
+export const FILTER_OPTIONS = {
+  material: { facet: 'Material', option: 'Glass', specification: 'Material' },
+  capacity: { facet: 'Capacity', option: '12 OZ', specification: 'Capacity' },
+  color: { facet: 'Color', option: 'Clear Flint', specification: 'Color' },
+  priceRange: { min: 1, max: 25 },
 };
 
 /**
  * Sort options available on collection pages
  */
 export const SORT_OPTIONS = {
+  bestSelling: 'best-selling',
   titleAscending: 'title-ascending',
+  titleDescending: 'title-descending',
+  priceAscending: 'price-ascending',
+  priceDescending: 'price-descending',
+  createdAscending: 'created-ascending',
+  createdDescending: 'created-descending',
 };
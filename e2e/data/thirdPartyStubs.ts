@@ -0,0 +1,41 @@
+/**
+ * Canned responses for the 'stub' third-party profile
+ * Scripts that the theme or other scripts call into get a no-op stand-in; every
+ * other third-party request gets an empty response of its resource type
+ */
+
+import type { ThirdPartyOptions } from '../helpers/thirdParty';
+
+export const THIRD_PARTY_OPTIONS: ThirdPartyOptions = {
+  stubs: [
+    {
+      name: 'Google Tag Manager',
+      pattern: /^https:\/\/www\.googletagmanager\.com\/gtag?\//,
+      contentType: 'application/javascript',
+      body: 'window.dataLayer = window.dataLayer || []; window.gtag = window.gtag || function () { window.dataLayer.push(arguments); };',
+    },
+    {
+      name: 'Meta Pixel',
+      pattern: /^https:\/\/connect\.facebook\.net\/.*\/fbevents\.js/,
+      contentType: 'application/javascript',
+      body: 'window.fbq = window.fbq || function () {};',
+    },
+    {
+      name: 'Klaviyo',
+      pattern: /^https:\/\/static\.klaviyo\.com\/onsite\/js\//,
+      contentType: 'application/javascript',
+      body: 'window.klaviyo = window.klaviyo || []; window._learnq = window._learnq || [];',
+    },
+    {
+      name: 'Shopify analytics',
+      pattern: /^https:\/\/monorail-edge\.shopifysvc\.com\//,
+      status: 204,
+      contentType: 'text/plain',
+      body: '',
+    },
+  ],
+  alwaysAllowed: [
+    // Theme fonts change the layout of every page and screenshot
+    /^https:\/\/fonts\.shopifycdn\.com\//,
+  ],
+};
@@ -3,6 +3,29 @@ import { PasswordPage } from './pages/PasswordPage';
 import { NavigationPage } from './pages/NavigationPage';
 import { CollectionPage } from './pages/CollectionPage';
 import { ProductPage } from './pages/ProductPage';
+import { CartPage } from './pages/CartPage';
+import { SearchPage } from './pages/SearchPage';
+import { StoreLocatorPage } from './pages/StoreLocatorPage';
+import { setupStorefrontReplay } from './helpers/replay';
+import { config } from './helpers/config';
+import {
+  type PerfBudgetMode,
+  PerformanceRecorder,
+  checkBudget,
+  formatBudgetChecks,
+  getPageTemplate,
+  loadBudget,
+} from './helpers/performance';
+import {
+  type PageErrorAllowlistEntry,
+  type PageErrorPolicy,
+  PageErrorMonitor,
+  filterPageEvents,
+  formatPageEvents,
+} from './helpers/pageErrors';
+import { PAGE_ERROR_ALLOWLIST } from './data/pageErrorAllowlist';
+import { type ThirdPartyProfile, formatThirdPartyReport, routeThirdPartyRequests } from './helpers/thirdParty';
+import { THIRD_PARTY_OPTIONS } from './data/thirdPartyStubs';
 
 /**
  * Custom fixtures for Playwright tests
@@ -12,7 +35,7 @@ import { ProductPage } from './pages/ProductPage';
  * ```typescript
  * import { test, expect } from './fixtures';
  *
- * test('my test', async ({ passwordPage, navigationPage, collectionPage, productPage }) => {
+ * test('my test', async ({ passwordPage, navigationPage, collectionPage, productPage, cartPage, storeLocatorPage }) => {
  *   await passwordPage.navigateWithPasswordCheck('/');
  *   await navigationPage.openProductsMenu();
  *   // No need for: new NavigationPage(page) or new CollectionPage(page)
@@ -25,9 +48,64 @@ type PageFixtures = {
   navigationPage: NavigationPage;
   collectionPage: CollectionPage;
   productPage: ProductPage;
+  cartPage: CartPage;
+  searchPage: SearchPage;
+  storeLocatorPage: StoreLocatorPage;
+  storeLocatorPopup: void;
+  storeSession: void;
+  storefrontReplay: void;
+  performanceBudgets: void;
+  pageErrorMonitor: void;
+  thirdPartyRequests: void;
 };
 
-export const test = base.extend<PageFixtures>({
+export type PageOptions = {
+  perfBudgetMode: PerfBudgetMode;
+  dismissStoreLocator: boolean;
+  autoRelogin: boolean;
+  pageErrorPolicy: PageErrorPolicy;
+  pageErrorAllowlist: PageErrorAllowlistEntry[];
+  thirdPartyProfile: ThirdPartyProfile;
+};
+
+export const test = base.extend<PageFixtures & PageOptions>({
+  /**
+   * Performance budget mode, set per file with test.use({ perfBudgetMode: 'enforce' })
+   * Defaults to the PERF_BUDGETS environment variable
+   */
+  perfBudgetMode: [config.perfBudgets, { option: true }],
+
+  /**
+   * Whether the store locator dialog is closed automatically whenever it appears
+   * Turned off with test.use({ dismissStoreLocator: false }) by tests that interact with it
+   */
+  dismissStoreLocator: [true, { option: true }],
+
+  /**
+   * Whether a test that lands on the password page logs in again automatically
+   * Turned off with test.use({ autoRelogin: false }) by tests of the password page itself
+   */
+  autoRelogin: [true, { option: true }],
+
+  /**
+   * What happens when a test sees JavaScript errors or failed first-party requests
+   * Defaults to the PAGE_ERRORS environment variable; set per file with test.use({ pageErrorPolicy: 'fail' })
+   */
+  pageErrorPolicy: [config.pageErrors, { option: true }],
+
+  /**
+   * Allowlist entries added to data/pageErrorAllowlist.ts for one file
+   * e.g. test.use({ pageErrorAllowlist: [{ type: 'http-error', pattern: /\/cart\/add/, reason: 'Adds over the stock limit' }] })
+   */
+  pageErrorAllowlist: [[], { option: true }],
+
+  /**
+   * What happens to requests outside the store and its CDN: 'allow', 'block' or 'stub'
+   * Defaults to the THIRD_PARTY environment variable; set per project in playwright.config.ts
+   * or per file with test.use({ thirdPartyProfile: 'stub' })
+   */
+  thirdPartyProfile: [config.thirdParty, { option: true }],
+
   /**
    * Password page fixture
    * Handles password-protected store access
@@ -63,6 +141,179 @@ export const test = base.extend<PageFixtures>({
     const productPage = new ProductPage(page);
     await use(productPage);
   },
+
+  /**
+   * Cart page fixture
+   * Starts every test with an empty cart and empties it again afterwards
+   * so parallel tests never see each other's line items
+   */
+  cartPage: async ({ page, context }, use) => {
+    const cartPage = new CartPage(page);
+    // Drop any cart token carried over from the shared storage state
+    await context.clearCookies({ name: 'cart' });
+    await cartPage.clearCart();
+    await use(cartPage);
+    await cartPage.clearCart();
+  },
+
+  /**
+   * Search page fixture
+   * Handles header search, predictive search and search results
+   */
+  searchPage: async ({ page }, use) => {
+    const searchPage = new SearchPage(page);
+    await use(searchPage);
+  },
+
+  /**
+   * Store locator page fixture
+   * Handles the "Select Your Richards Branch" dialog and branch selection
+   */
+  storeLocatorPage: async ({ page }, use) => {
+    const storeLocatorPage = new StoreLocatorPage(page);
+    await use(storeLocatorPage);
+  },
+
+  /**
+   * Store locator popup fixture (auto)
+   * Presses Escape whenever the branch dialog appears, so it never blocks a click
+   */
+  storeLocatorPopup: [
+    async ({ page, dismissStoreLocator }, use) => {
+      if (dismissStoreLocator) {
+        await new StoreLocatorPage(page).autoDismiss();
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  /**
+   * Store session fixture (auto)
+   * Logs in again when the saved session expires mid-run and returns to the requested page
+   */
+  storeSession: [
+    async ({ page, autoRelogin }, use) => {
+      if (autoRelogin && !config.replay) {
+        await new PasswordPage(page).enableAutoRelogin();
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  /**
+   * Storefront replay fixture (auto)
+   * Records storefront responses with RECORD=1 and serves them offline with TEST_ENV=replay
+   * Fails the test with the list of unrecorded requests after a replay miss
+   */
+  storefrontReplay: [
+    async ({ context }, use, testInfo) => {
+      const verifyNoMisses = await setupStorefrontReplay(context, testInfo);
+      await use();
+      await verifyNoMisses();
+    },
+    { auto: true },
+  ],
+
+  /**
+   * Third-party request fixture (auto)
+   * Blocks or stubs third-party requests according to thirdPartyProfile, attaches the requests
+   * per host, and annotates the test with its profile for the run history
+   * Replay runs already abort every third-party request
+   */
+  thirdPartyRequests: [
+    async ({ context, thirdPartyProfile }, use, testInfo) => {
+      if (config.replay) {
+        await use();
+        return;
+      }
+
+      const requests = await routeThirdPartyRequests(context, thirdPartyProfile, THIRD_PARTY_OPTIONS);
+      await use();
+
+      testInfo.annotations.push({ type: 'third-party', description: thirdPartyProfile });
+      await testInfo.attach('third-party-requests', {
+        body: formatThirdPartyReport(thirdPartyProfile, requests),
+        contentType: 'text/plain',
+      });
+    },
+    { auto: true },
+  ],
+
+  /**
+   * Performance budget fixture (auto)
+   * Records Core Web Vitals, transfer size and request count for every navigation,
+   * attaches a per-metric breakdown per navigation, and fails over budget in 'enforce' mode
+   */
+  performanceBudgets: [
+    async ({ page, perfBudgetMode }, use, testInfo) => {
+      if (perfBudgetMode === 'off') {
+        await use();
+        return;
+      }
+
+      const recorder = new PerformanceRecorder(page);
+      await recorder.start();
+      await use();
+
+      const failures: string[] = [];
+      for (const [index, metrics] of (await recorder.finish()).entries()) {
+        const template = getPageTemplate(metrics.url);
+        if (!template) continue;
+
+        const checks = checkBudget(metrics, loadBudget(template));
+        const breakdown = formatBudgetChecks(metrics.url, template, checks);
+        await testInfo.attach(`performance-${index + 1}-${template}`, { body: breakdown, contentType: 'text/plain' });
+        if (checks.some((check) => check.status === 'fail')) failures.push(breakdown);
+      }
+
+      if (perfBudgetMode === 'enforce' && failures.length > 0) {
+        throw new Error(`Performance budget exceeded:\n\n${failures.join('\n\n')}`);
+      }
+    },
+    { auto: true },
+  ],
+
+  /**
+   * Page error fixture (auto)
+   * Collects uncaught exceptions, crashes, console errors and failed or 4xx/5xx first-party requests,
+   * attaches them to the report, and warns or fails according to pageErrorPolicy
+   */
+  pageErrorMonitor: [
+    async ({ context, pageErrorPolicy, pageErrorAllowlist }, use, testInfo) => {
+      if (pageErrorPolicy === 'off') {
+        await use();
+        return;
+      }
+
+      const monitor = new PageErrorMonitor(context);
+      monitor.start();
+      await use();
+
+      const { reported, allowed } = filterPageEvents(monitor.events, [...PAGE_ERROR_ALLOWLIST, ...pageErrorAllowlist]);
+      if (reported.length === 0 && allowed.length === 0) return;
+
+      const body = [
+        `Reported (${reported.length}):`,
+        formatPageEvents(reported),
+        '',
+        `Allowlisted (${allowed.length}):`,
+        formatPageEvents(allowed),
+      ].join('\n');
+      await testInfo.attach('page-errors', { body, contentType: 'text/plain' });
+      if (reported.length === 0) return;
+
+      if (pageErrorPolicy === 'fail') {
+        throw new Error(`Page errors during the test:\n\n${formatPageEvents(reported)}`);
+      }
+      testInfo.annotations.push({
+        type: 'warning',
+        description: `${reported.length} page error(s), see the page-errors attachment`,
+      });
+    },
+    { auto: true },
+  ],
 });
 
 // Re-export expect for convenience
@@ -0,0 +1,184 @@
+import { test, type Page, type Locator } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+
+/**
+ * Accessibility audit helpers
+ *
+ * Runs axe-core inside the page, compares the violations with the committed
+ * baseline of known issues, and writes every scan to the accessibility report.
+ * Known violations are tracked as annotations; only new ones fail the test.
+ */
+
+/**
+ * WCAG rule sets checked by every scan
+ */
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+/**
+ * Committed baseline of known violations, keyed by project and scan name (see getBaselineKey)
+ * Regenerate with A11Y_UPDATE_BASELINE=1 (run with --workers=1)
+ */
+export const ACCESSIBILITY_BASELINE_PATH = path.resolve(__dirname, '../data/accessibilityBaseline.json');
+
+/**
+ * Directory the per-scan JSON reports are written to
+ */
+export const ACCESSIBILITY_REPORT_DIR = path.resolve(__dirname, '../accessibility-report');
+
+/**
+ * A single rule violation on a single element
+ */
+export type AccessibilityViolation = {
+  ruleId: string;
+  target: string;
+  impact: string | null;
+  help: string;
+  helpUrl: string;
+};
+
+/**
+ * A baseline entry identifies a known violation by rule and element
+ */
+export type BaselineEntry = Pick<AccessibilityViolation, 'ruleId' | 'target'>;
+
+/**
+ * Result of one accessibility scan compared against the baseline
+ */
+export type AccessibilityScanResult = {
+  scan: string;
+  // The Playwright project the scan ran in
+  project: string;
+  url: string;
+  violations: AccessibilityViolation[];
+  newViolations: AccessibilityViolation[];
+  knownViolations: AccessibilityViolation[];
+  // Baseline entries that no longer occur and can be removed
+  resolvedBaseline: BaselineEntry[];
+};
+
+/**
+ * Gets the baseline key of a scan
+ * Each project renders its own layout (e.g. the menu drawer on mobile), so each keeps its own known violations
+ * @param project - The Playwright project name (e.g. 'mobile-safari')
+ * @param scan - The scan name (e.g. 'mega-menu')
+ * @returns The key, e.g. 'mobile-safari/mega-menu'
+ */
+export function getBaselineKey(project: string, scan: string): string {
+  return `${project}/${scan}`;
+}
+
+/**
+ * Reads the committed baseline
+ * @returns Known violations keyed by project and scan name
+ */
+export function loadAccessibilityBaseline(): Record<string, BaselineEntry[]> {
+  if (!fs.existsSync(ACCESSIBILITY_BASELINE_PATH)) return {};
+  return JSON.parse(fs.readFileSync(ACCESSIBILITY_BASELINE_PATH, 'utf-8'));
+}
+
+/**
+ * Splits violations into new and known ones using the baseline
+ * @param scan - The scan name
+ * @param project - The Playwright project the scan ran in
+ * @param url - The scanned page URL
+ * @param violations - Violations found by this scan
+ * @param baseline - Known violations keyed by project and scan name
+ */
+export function compareWithBaseline(
+  scan: string,
+  project: string,
+  url: string,
+  violations: AccessibilityViolation[],
+  baseline: Record<string, BaselineEntry[]>
+): AccessibilityScanResult {
+  const known = baseline[getBaselineKey(project, scan)] ?? [];
+  const isKnown = (violation: BaselineEntry) =>
+    known.some((entry) => entry.ruleId === violation.ruleId && entry.target === violation.target);
+
+  return {
+    scan,
+    project,
+    url,
+    violations,
+    newViolations: violations.filter((violation) => !isKnown(violation)),
+    knownViolations: violations.filter(isKnown),
+    resolvedBaseline: known.filter(
+      (entry) => !violations.some((violation) => violation.ruleId === entry.ruleId && violation.target === entry.target)
+    ),
+  };
+}
+
+/**
+ * Formats violations as one readable line each
+ * @param violations - Violations to list
+ */
+export function formatViolations(violations: AccessibilityViolation[]): string {
+  return violations
+    .map((violation) => `  [${violation.impact ?? 'unknown'}] ${violation.ruleId}: ${violation.help} (${violation.target})`)
+    .join('\n');
+}
+
+/**
+ * Runs an axe-core scan of the page or of a single region
+ * @param page - The page to scan
+ * @param scan - Name of the scan, used in the baseline key and report file name
+ * @param scope - Optional locator limiting the scan to one region
+ */
+export async function runAccessibilityScan(
+  page: Page,
+  scan: string,
+  scope?: Locator
+): Promise<AccessibilityScanResult> {
+  const builder = new AxeBuilder({ page }).withTags(WCAG_TAGS);
+
+  if (scope) {
+    // axe only accepts CSS selectors, so mark the located element to scope the scan
+    await scope.first().evaluate((element, name) => element.setAttribute('data-a11y-scope', name), scan);
+    builder.include(`[data-a11y-scope="${scan}"]`);
+  }
+
+  const results = await builder.analyze();
+  const violations = results.violations.flatMap((violation) =>
+    violation.nodes.map((node) => ({
+      ruleId: violation.id,
+      target: node.target.join(' '),
+      impact: violation.impact ?? null,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+    }))
+  );
+
+  return compareWithBaseline(scan, test.info().project.name, page.url(), violations, loadAccessibilityBaseline());
+}
+
+/**
+ * Records a scan: attaches it to the test, writes the report file,
+ * annotates known violations, and updates the baseline when requested
+ * @param result - The compared scan result
+ */
+export async function recordAccessibilityScan(result: AccessibilityScanResult): Promise<void> {
+  const testInfo = test.info();
+  const body = JSON.stringify(result, null, 2);
+
+  await testInfo.attach(`accessibility-${result.scan}`, { body, contentType: 'application/json' });
+
+  const reportName = `${result.scan}-${result.project}.json`;
+  fs.mkdirSync(ACCESSIBILITY_REPORT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(ACCESSIBILITY_REPORT_DIR, reportName), body);
+
+  if (result.knownViolations.length > 0) {
+    testInfo.annotations.push({
+      type: 'known-a11y-violations',
+      description: `${result.scan}: ${result.knownViolations.length} known violation(s) from the baseline`,
+    });
+  }
+
+  if (config.a11yUpdateBaseline) {
+    const baseline = loadAccessibilityBaseline();
+    baseline[getBaselineKey(result.project, result.scan)] = result.violations.map(({ ruleId, target }) => ({ ruleId, target }));
+    fs.writeFileSync(ACCESSIBILITY_BASELINE_PATH, JSON.stringify(baseline, null, 2) + '\n');
+  }
+}
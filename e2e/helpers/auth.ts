@@ -0,0 +1,103 @@
+import type { Page } from '@playwright/test';
+import * as path from 'path';
+import { config } from './config';
+
+/**
+ * Store authentication helpers
+ *
+ * The auth setup projects log in once per browser project and save a storage
+ * state per project under `.auth/`. These helpers locate those files and verify
+ * that a session really carries the storefront password and the preview theme.
+ */
+
+/**
+ * Directory holding one storage state file per browser project
+ */
+export const AUTH_DIR = path.resolve(__dirname, '../.auth');
+
+/**
+ * Cookie Shopify sets once the storefront password has been accepted
+ */
+export const PASSWORD_COOKIE = 'storefront_digest';
+
+/**
+ * Thrown when logging in to the store fails or a session is missing what a test run needs
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(`[Auth] ${message}`);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * The theme a storefront page rendered; role is 'main' for the published theme, 'unpublished' for previews
+ */
+export type RenderedTheme = { id: number; role: string };
+
+declare global {
+  interface Window {
+    // Storefront globals
+    Shopify?: { theme?: RenderedTheme };
+  }
+}
+
+/**
+ * Gets the storage state file of a browser project
+ * @param projectName - The browser project name (e.g. 'chromium', 'mobile-safari')
+ */
+export function getStorageStatePath(projectName: string): string {
+  return path.join(AUTH_DIR, `${projectName}.json`);
+}
+
+/**
+ * Reads the theme the current page rendered from `Shopify.theme`
+ * @param page - A page on the store
+ * @returns The rendered theme, or null when the page exposes none
+ */
+export async function readRenderedTheme(page: Page): Promise<RenderedTheme | null> {
+  return page.evaluate(() => window.Shopify?.theme ?? null);
+}
+
+/**
+ * Describes how a rendered theme differs from the expected one
+ * @param theme - The rendered theme, or null when the page exposes none
+ * @param themeId - The expected preview theme ID, or null for the published theme
+ * @returns The mismatch, or null when the expected theme rendered
+ */
+export function describeThemeMismatch(theme: RenderedTheme | null, themeId: string | null): string | null {
+  if (themeId && String(theme?.id) !== themeId) {
+    return `expected preview theme ${themeId} but the store rendered ${theme ? `theme ${theme.id} (${theme.role})` : 'no theme information'}`;
+  }
+  if (!themeId && theme && theme.role !== 'main') {
+    return `expected the published theme but the store rendered ${theme.role} theme ${theme.id}`;
+  }
+  return null;
+}
+
+/**
+ * Checks that the page's session has the password cookie and renders the configured theme
+ * The theme is read from `Shopify.theme`, which the storefront exposes on every page
+ * @param page - A page on the store
+ * @param options - Whether the store showed a password page during login
+ * @throws AuthError describing every missing part of the session
+ */
+export async function verifySession(page: Page, options: { passwordProtected: boolean }): Promise<void> {
+  const problems: string[] = [];
+
+  if (options.passwordProtected) {
+    const cookies = await page.context().cookies(config.storeUrl);
+    if (!cookies.some((cookie) => cookie.name === PASSWORD_COOKIE)) {
+      problems.push(`the ${PASSWORD_COOKIE} password cookie is not set`);
+    }
+  }
+
+  const themeMismatch = describeThemeMismatch(await readRenderedTheme(page), config.themeId);
+  if (themeMismatch) {
+    problems.push(themeMismatch);
+  }
+
+  if (problems.length > 0) {
+    throw new AuthError(`Session for ${config.storeUrl} is incomplete: ${problems.join('; ')}`);
+  }
+}
@@ -0,0 +1,107 @@
+import type { Page } from '@playwright/test';
+
+/**
+ * Theme breakpoints
+ *
+ * The theme switches layouts with `min-width` media queries: the facet sidebar
+ * and multi-column grids appear at the tablet breakpoint, and the inline mega
+ * menu replaces the menu drawer at the desktop breakpoint. Page objects read
+ * those widths from the theme's own stylesheets, so specs never hard-code a
+ * cutoff and a theme that moves a breakpoint is followed automatically.
+ */
+
+export type Breakpoint = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Minimum viewport width in px of the tablet and desktop layouts
+ */
+export type ThemeBreakpoints = {
+  tablet: number;
+  desktop: number;
+};
+
+/**
+ * A `min-width` media rule and the selectors of the rules inside it
+ */
+export type MediaRuleSummary = {
+  minWidth: number;
+  selectors: string;
+};
+
+/**
+ * Dawn's breakpoints, used when the theme's stylesheets can't be read (e.g. cross-origin CSS)
+ */
+export const DEFAULT_BREAKPOINTS: ThemeBreakpoints = { tablet: 750, desktop: 990 };
+
+/**
+ * Selectors whose media rules define each breakpoint
+ * The desktop header shows the inline menu and hides the drawer; tablet layouts show the facet sidebar
+ */
+const BREAKPOINT_SELECTORS: Record<keyof ThemeBreakpoints, RegExp> = {
+  tablet: /\bfacets(-container|__form)\b|\bgrid--\d-col-tablet\b/,
+  desktop: /\bheader__inline-menu\b|\bheader-drawer\b/,
+};
+
+/**
+ * Derives the theme breakpoints from its media rules
+ * Each breakpoint is the smallest min-width that restyles its selectors; missing or
+ * inconsistent values fall back to DEFAULT_BREAKPOINTS
+ * @param rules - The theme's min-width media rules
+ */
+export function parseThemeBreakpoints(rules: MediaRuleSummary[]): ThemeBreakpoints {
+  const smallest = (selectors: RegExp) => {
+    const widths = rules.filter((rule) => selectors.test(rule.selectors)).map((rule) => rule.minWidth);
+    return widths.length > 0 ? Math.min(...widths) : null;
+  };
+  const tablet = smallest(BREAKPOINT_SELECTORS.tablet) ?? DEFAULT_BREAKPOINTS.tablet;
+  const desktop = smallest(BREAKPOINT_SELECTORS.desktop) ?? DEFAULT_BREAKPOINTS.desktop;
+  return tablet < desktop ? { tablet, desktop } : DEFAULT_BREAKPOINTS;
+}
+
+/**
+ * Finds the layout a viewport width gets
+ * @param width - The viewport width in px
+ * @param breakpoints - The theme breakpoints
+ */
+export function getBreakpointForWidth(width: number, breakpoints: ThemeBreakpoints): Breakpoint {
+  if (width >= breakpoints.desktop) return 'desktop';
+  if (width >= breakpoints.tablet) return 'tablet';
+  return 'mobile';
+}
+
+/**
+ * Reads the theme breakpoints from the stylesheets of the current document
+ * Stylesheets from another origin can't be read and are skipped
+ * @param page - A page showing a storefront document
+ */
+export async function readThemeBreakpoints(page: Page): Promise<ThemeBreakpoints> {
+  const selectorPattern = Object.values(BREAKPOINT_SELECTORS)
+    .map((pattern) => pattern.source)
+    .join('|');
+
+  const rules = await page.evaluate((source) => {
+    const pattern = new RegExp(source);
+    const summaries: MediaRuleSummary[] = [];
+    const visit = (rules: CSSRuleList) => {
+      for (const rule of rules) {
+        if (!(rule instanceof CSSMediaRule)) continue;
+        const minWidth = rule.media.mediaText.match(/min-width:\s*(\d+)px/);
+        const selectors = [...rule.cssRules]
+          .map((child) => (child instanceof CSSStyleRule ? child.selectorText : ''))
+          .join(', ');
+        if (minWidth && pattern.test(selectors)) summaries.push({ minWidth: Number(minWidth[1]), selectors });
+        visit(rule.cssRules);
+      }
+    };
+    for (const sheet of document.styleSheets) {
+      try {
+        visit(sheet.cssRules);
+      } catch {
+        // Cross-origin stylesheet
+      }
+    }
+    return summaries;
+  }, selectorPattern);
+
+  return parseThemeBreakpoints(rules);
+}
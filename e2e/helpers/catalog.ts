@@ -0,0 +1,355 @@
+import type { APIRequestContext } from '@playwright/test';
+import type { CollectionData, ProductData } from '../data/productNavigationData';
+import type { NavigationNode } from '../pages/NavigationPage';
+import { getNavigationLeaves, getNavigationTarget } from './navigation';
+
+/**
+ * Catalog sync helpers
+ *
+ * Builds collection and product test data from the storefront JSON endpoints
+ * (`/collections/<handle>.json`, `/collections/<handle>/products.json`, `/products/<handle>.js`)
+ * and reports drift against the committed data. Every request goes through a
+ * CatalogFetcher so the same code runs against the live store or saved fixtures.
+ */
+
+/**
+ * Fetches a storefront JSON endpoint by path (e.g. '/products/some-handle.js')
+ */
+export type CatalogFetcher = (requestPath: string) => Promise<unknown>;
+
+/**
+ * Product fields shared by `products.json` entries and `/products/<handle>.js`
+ */
+export type ShopifyCatalogProduct = {
+  title: string;
+  handle: string;
+  created_at?: string;
+  tags: string[] | string;
+  options: { name: string; values: string[] }[];
+  variants: { sku: string | null }[];
+};
+
+/**
+ * Collection and product data pulled from the store
+ */
+export type CatalogSnapshot = {
+  collections: CollectionData[];
+  products: ProductData[];
+};
+
+/**
+ * A single difference between committed test data and the store
+ */
+export type CatalogDrift = {
+  subject: string;
+  field: string;
+  committed: string;
+  store: string;
+};
+
+type Specifications = ProductData['specifications'];
+
+/**
+ * The specifications the JSON endpoints expose; any other Product Details attribute keeps its committed value
+ */
+type SyncedSpecifications = Pick<Specifications, 'capacity' | 'material' | 'color' | 'countryOfOrigin'>;
+
+/**
+ * Page size used when paging through `products.json` (Shopify's maximum)
+ */
+const PRODUCTS_PAGE_SIZE = 250;
+
+/**
+ * Maps storefront option/tag names to the specification keys used in test data
+ */
+const SPECIFICATION_KEYS: Record<string, keyof SyncedSpecifications> = {
+  'capacity': 'capacity',
+  'material': 'material',
+  'color': 'color',
+  'colour': 'color',
+  'country of origin': 'countryOfOrigin',
+};
+
+/**
+ * Extracts the handle from a collection or product URL
+ * @param url - A storefront path such as '/collections/glass-bottles-jars-1'
+ */
+export function handleFromUrl(url: string): string {
+  return url.split('?')[0].split('/').filter(Boolean).pop() ?? '';
+}
+
+/**
+ * Lists the collections the store menu links to, so they can be registered
+ * @param tree - The navigation tree, e.g. the committed navigation snapshot
+ * @returns Collection handles in menu order, without duplicates
+ */
+export function getMenuCollectionHandles(tree: NavigationNode[]): string[] {
+  const handles = getNavigationLeaves(tree)
+    .filter((leaf) => getNavigationTarget(leaf.href) === 'collection')
+    .map((leaf) => handleFromUrl(leaf.href!));
+  return [...new Set(handles)];
+}
+
+/**
+ * Reads the specifications a product exposes through its options and `Name: Value` tags
+ * Metafield-only specifications are not part of the JSON endpoints and are left out
+ * @param product - Product JSON from the store
+ * @returns The specifications the store reports
+ */
+export function extractSpecifications(product: ShopifyCatalogProduct): Partial<SyncedSpecifications> {
+  const specifications: Partial<SyncedSpecifications> = {};
+  const tags = Array.isArray(product.tags) ? product.tags : product.tags.split(',');
+
+  for (const tag of tags) {
+    const [name, ...rest] = tag.split(':');
+    const key = SPECIFICATION_KEYS[name.trim().toLowerCase()];
+    if (key && rest.length > 0) {
+      specifications[key] = rest.join(':').trim();
+    }
+  }
+
+  for (const option of product.options) {
+    const key = SPECIFICATION_KEYS[option.name.trim().toLowerCase()];
+    if (key && option.values.length === 1) {
+      specifications[key] = option.values[0];
+    }
+  }
+
+  return specifications;
+}
+
+/**
+ * Pulls every product in a collection, in the collection's default sort order
+ * @param fetcher - Catalog fetcher
+ * @param handle - The collection handle
+ */
+export async function fetchCollectionProducts(
+  fetcher: CatalogFetcher,
+  handle: string
+): Promise<ShopifyCatalogProduct[]> {
+  const allProducts: ShopifyCatalogProduct[] = [];
+
+  for (let page = 1; ; page++) {
+    const { products } = (await fetcher(
+      `/collections/${handle}/products.json?limit=${PRODUCTS_PAGE_SIZE}&page=${page}`
+    )) as { products: ShopifyCatalogProduct[] };
+    allProducts.push(...products);
+    if (products.length < PRODUCTS_PAGE_SIZE) break;
+  }
+
+  return allProducts;
+}
+
+/**
+ * Pulls a collection's title and every product handle in it
+ * @param fetcher - Catalog fetcher
+ * @param handle - The collection handle
+ */
+export async function fetchCollection(
+  fetcher: CatalogFetcher,
+  handle: string
+): Promise<{ title: string; productHandles: string[] }> {
+  const { collection } = (await fetcher(`/collections/${handle}.json`)) as { collection: { title: string } };
+  const products = await fetchCollectionProducts(fetcher, handle);
+
+  return { title: collection.title, productHandles: products.map((product) => product.handle) };
+}
+
+/**
+ * Pulls a product and converts it to ProductData
+ * @param fetcher - Catalog fetcher
+ * @param handle - The product handle
+ * @param fallback - Committed data used for specifications the store doesn't expose
+ */
+export async function fetchProduct(
+  fetcher: CatalogFetcher,
+  handle: string,
+  fallback?: ProductData
+): Promise<ProductData> {
+  const product = (await fetcher(`/products/${handle}.js`)) as ShopifyCatalogProduct;
+  const emptySpecifications: Specifications = { capacity: '', material: '', color: '', countryOfOrigin: '' };
+
+  return {
+    name: product.title,
+    sku: product.variants[0]?.sku ?? '',
+    url: `/products/${product.handle}`,
+    specifications: {
+      ...(fallback?.specifications ?? emptySpecifications),
+      ...extractSpecifications(product),
+    },
+    // Single-variant products only have Shopify's 'Title: Default Title' placeholder
+    variantOptions: product.options
+      .filter((option) => option.values.length > 1)
+      .map(({ name, values }) => ({ name, values })),
+  };
+}
+
+/**
+ * Rebuilds the registered collections and their target products from the store
+ * @param fetcher - Catalog fetcher
+ * @param committed - The committed collection registry
+ * @param extraCollectionHandles - Additional collections to pull
+ */
+export async function syncCatalog(
+  fetcher: CatalogFetcher,
+  committed: CollectionData[],
+  extraCollectionHandles: string[] = []
+): Promise<CatalogSnapshot> {
+  const snapshot: CatalogSnapshot = { collections: [], products: [] };
+  const handles = [...committed.map((collection) => handleFromUrl(collection.url)), ...extraCollectionHandles];
+
+  for (const handle of [...new Set(handles)]) {
+    const entry = committed.find((collection) => handleFromUrl(collection.url) === handle);
+    const { title, productHandles } = await fetchCollection(fetcher, handle);
+    const collection: CollectionData = {
+      url: `/collections/${handle}`,
+      name: title,
+      productCount: productHandles.length,
+    };
+
+    if (entry?.targetProduct) {
+      const productHandle = handleFromUrl(entry.targetProduct.url);
+      if (productHandles.includes(productHandle)) {
+        collection.targetProduct = await fetchProduct(fetcher, productHandle, entry.targetProduct);
+        snapshot.products.push(collection.targetProduct);
+      }
+    }
+
+    snapshot.collections.push(collection);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compares committed test data against a snapshot pulled from the store
+ * Collections pulled with extra handles but missing from the registry count as drift
+ * @param committed - The committed collection registry
+ * @param store - The snapshot pulled from the store
+ * @returns Every field that differs; empty when the data is current
+ */
+export function diffCatalog(committed: CollectionData[], store: CatalogSnapshot): CatalogDrift[] {
+  const drifts: CatalogDrift[] = [];
+  const record = (subject: string, field: string, committedValue: unknown, storeValue: unknown) => {
+    if (String(committedValue) !== String(storeValue)) {
+      drifts.push({ subject, field, committed: String(committedValue), store: String(storeValue) });
+    }
+  };
+
+  for (const entry of committed) {
+    const live = store.collections.find((collection) => collection.url === entry.url);
+    if (!live) {
+      record(entry.url, 'collection', 'registered', 'missing');
+      continue;
+    }
+
+    record(entry.url, 'name', entry.name, live.name);
+    record(entry.url, 'productCount', entry.productCount, live.productCount);
+
+    if (!entry.targetProduct) continue;
+    const product = live.targetProduct;
+    if (!product) {
+      record(entry.targetProduct.url, 'collection', entry.url, 'not in collection');
+      continue;
+    }
+
+    record(product.url, 'name', entry.targetProduct.name, product.name);
+    record(product.url, 'sku', entry.targetProduct.sku, product.sku);
+    for (const key of Object.keys(entry.targetProduct.specifications) as (keyof Specifications)[]) {
+      record(product.url, `specifications.${key}`, entry.targetProduct.specifications[key], product.specifications[key]);
+    }
+    record(product.url, 'variantOptions', JSON.stringify(entry.targetProduct.variantOptions), JSON.stringify(product.variantOptions));
+  }
+
+  for (const live of store.collections) {
+    if (!committed.some((entry) => entry.url === live.url)) {
+      record(live.url, 'collection', 'not registered', 'present');
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Formats drift entries as a readable report
+ * @param drifts - The drift entries from diffCatalog
+ */
+export function formatDrift(drifts: CatalogDrift[]): string {
+  if (drifts.length === 0) {
+    return 'Catalog data matches the store';
+  }
+  return [
+    `Catalog drift: ${drifts.length} field(s) differ from the store`,
+    ...drifts.map((drift) => `  ${drift.subject} ${drift.field}: committed "${drift.committed}", store "${drift.store}"`),
+  ].join('\n');
+}
+
+/**
+ * Picks the registered target products the store no longer lists in their collection
+ * A sync must not write data without them, because the specs look target products up by URL when they load
+ * @param drifts - Drift reported by diffCatalog
+ */
+export function getDroppedTargetProducts(drifts: CatalogDrift[]): CatalogDrift[] {
+  return drifts.filter((drift) => drift.field === 'collection' && drift.store === 'not in collection');
+}
+
+/**
+ * Renders a snapshot as a typed TypeScript data module
+ * @param snapshot - The snapshot pulled from the store
+ * @param source - Store URL the snapshot came from, written into the header
+ */
+export function renderCatalogModule(snapshot: CatalogSnapshot, source: string): string {
+  const json = (value: unknown) => JSON.stringify(value, null, 2).replace(/"([A-Za-z]\w*)":/g, '$1:');
+
+  return [
+    '/**',
+    ' * Catalog test data generated from the storefront JSON endpoints',
+    ` * Source: ${source}`,
+    ' * Regenerate with: npm run catalog:sync',
+    ' */',
+    '',
+    "import type { CollectionData, ProductData } from './productNavigationData';",
+    '',
+    `export const CATALOG_COLLECTIONS: CollectionData[] = ${json(snapshot.collections)};`,
+    '',
+    `export const CATALOG_PRODUCTS: ProductData[] = ${json(snapshot.products)};`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Creates a fetcher that serves responses from a saved fixture map
+ * @param responses - Map of request path to the JSON the store returned
+ */
+export function createFixtureFetcher(responses: Record<string, unknown>): CatalogFetcher {
+  return async (requestPath) => {
+    if (!(requestPath in responses)) {
+      throw new Error(`[Catalog] No fixture response for ${requestPath}`);
+    }
+    return responses[requestPath];
+  };
+}
+
+/**
+ * Creates a fetcher that requests the live store through a Playwright request context
+ * @param context - Request context carrying the store session (e.g. `page.request`)
+ * @param onResponse - Called with every JSON body, e.g. to save fixtures
+ */
+export function createRequestFetcher(
+  context: APIRequestContext,
+  onResponse?: (requestPath: string, body: unknown) => void
+): CatalogFetcher {
+  return async (requestPath) => {
+    const response = await context.get(requestPath);
+    const contentType = response.headers()['content-type'] ?? '';
+    if (!response.ok() || !contentType.includes('json')) {
+      throw new Error(
+        `[Catalog] ${requestPath} returned ${response.status()} ${contentType}. ` +
+          'If the store is password protected, run the chromium tests once to refresh .auth/chromium.json.'
+      );
+    }
+    const body = await response.json();
+    onResponse?.(requestPath, body);
+    return body;
+  };
+}
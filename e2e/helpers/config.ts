@@ -0,0 +1,287 @@
+import * as dotenv from 'dotenv';
+import { inspect } from 'util';
+import type { PerfBudgetMode } from './performance';
+import type { PageErrorPolicy } from './pageErrors';
+import type { ThirdPartyProfile } from './thirdParty';
+
+/**
+ * Test configuration
+ *
+ * Every setting the suite reads from the environment lives here. TEST_ENV picks a
+ * named profile (store, theme and mode); TEST_URL, TEST_THEME_ID and STORE_PASSWORD
+ * override the profile. The result is validated once at startup, so an empty theme
+ * ID or an unknown profile fails the run before any browser starts. The password
+ * is only checked where the store is logged in to (requireStorePassword), so the
+ * offline tools project and scripts run without one.
+ */
+
+// Load environment variables from .env file
+dotenv.config({ path: './.env' });
+
+const US_STORE_URL = 'https://richards-packaging-us.myshopify.com';
+
+/**
+ * A named environment the suite can run against
+ */
+export type EnvironmentProfile = {
+  description: string;
+  // Store origin; null when it must come from TEST_URL
+  storeUrl: string | null;
+  // 'preview' requires TEST_THEME_ID, 'live' rejects it, 'recorded' ignores it
+  theme: 'live' | 'preview' | 'recorded';
+  // Serve storefront responses from recordings instead of the network (see helpers/replay.ts)
+  replay: boolean;
+};
+
+/**
+ * Named profiles, selected with TEST_ENV
+ */
+export const PROFILES = {
+  'us-live': {
+    description: 'US store, published theme',
+    storeUrl: US_STORE_URL,
+    theme: 'live',
+    replay: false,
+  },
+  'us-preview': {
+    description: 'US store, unpublished theme from TEST_THEME_ID',
+    storeUrl: US_STORE_URL,
+    theme: 'preview',
+    replay: false,
+  },
+  'ca-live': {
+    description: 'Canada store from TEST_URL, published theme',
+    storeUrl: null,
+    theme: 'live',
+    replay: false,
+  },
+  'replay': {
+    description: 'US store served from recordings, no network or password',
+    storeUrl: US_STORE_URL,
+    theme: 'recorded',
+    replay: true,
+  },
+} satisfies Record<string, EnvironmentProfile>;
+
+export type ProfileName = keyof typeof PROFILES;
+
+/**
+ * Profile used when TEST_ENV is not set
+ */
+export const DEFAULT_PROFILE: ProfileName = 'us-live';
+
+const PERF_BUDGET_MODES: PerfBudgetMode[] = ['off', 'report', 'enforce'];
+
+const PAGE_ERROR_POLICIES: PageErrorPolicy[] = ['off', 'warn', 'fail'];
+
+const THIRD_PARTY_PROFILES: ThirdPartyProfile[] = ['allow', 'block', 'stub'];
+
+/**
+ * A secret value that prints as a mask
+ * Use reveal() where the real value is needed, e.g. when filling the password field
+ */
+export class Secret {
+  static readonly MASK = '******';
+
+  constructor(private readonly value: string) {}
+
+  reveal(): string {
+    return this.value;
+  }
+
+  toString(): string {
+    return Secret.MASK;
+  }
+
+  toJSON(): string {
+    return Secret.MASK;
+  }
+
+  [inspect.custom](): string {
+    return Secret.MASK;
+  }
+}
+
+/**
+ * Validated configuration for one run
+ */
+export type TestConfig = {
+  profile: ProfileName;
+  // Store origin, e.g. 'https://richards-packaging-us.myshopify.com'
+  storeUrl: string;
+  // Theme under test; null tests the published theme
+  themeId: string | null;
+  // Null when STORE_PASSWORD is unset; requireStorePassword() reads it for logging in
+  storePassword: Secret | null;
+  record: boolean;
+  replay: boolean;
+  replayFixtureVersion: string;
+  // Rewrite data/accessibilityBaseline.json from the current violations instead of failing on them
+  a11yUpdateBaseline: boolean;
+  // Run tests/accessibility; off by default until a baseline is committed, and on while updating one
+  a11yTests: boolean;
+  // Core Web Vitals budgets: 'off', 'report' (attach only) or 'enforce' (fail over budget)
+  perfBudgets: PerfBudgetMode;
+  // JavaScript errors and failed first-party requests: 'off', 'warn' (annotate) or 'fail'
+  pageErrors: PageErrorPolicy;
+  // Third-party requests: 'allow', 'block' (abort) or 'stub' (canned responses)
+  thirdParty: ThirdPartyProfile;
+  // Allowed ratio of differing pixels before a screenshot comparison fails
+  visualMaxDiffRatio: number;
+  // Run tests/visual; off by default so runs without committed baselines don't fail on a first screenshot
+  visualTests: boolean;
+};
+
+/**
+ * Thrown when the environment doesn't describe a valid run; lists every problem at once
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[], readonly profile: string) {
+    super(
+      `[Config] Invalid configuration for profile "${profile}":\n` +
+        problems.map((problem) => `  - ${problem}`).join('\n') +
+        `\nProfiles: ${Object.keys(PROFILES).join(', ')} (select with TEST_ENV). See .env.example.`
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+type Environment = Record<string, string | undefined>;
+
+/**
+ * Reads an environment variable, treating empty strings as unset
+ */
+function read(env: Environment, name: string): string | undefined {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Builds and validates the configuration from environment variables
+ * @param env - The environment, usually process.env
+ * @throws ConfigError listing every invalid or missing value
+ */
+export function loadConfig(env: Environment): TestConfig {
+  const problems: string[] = [];
+  const profileName = read(env, 'TEST_ENV') ?? DEFAULT_PROFILE;
+
+  if (!(profileName in PROFILES)) {
+    throw new ConfigError([`Unknown TEST_ENV "${profileName}"`], profileName);
+  }
+  const profile: EnvironmentProfile = PROFILES[profileName as ProfileName];
+
+  let storeUrl = '';
+  const rawStoreUrl = read(env, 'TEST_URL') ?? profile.storeUrl;
+  if (!rawStoreUrl) {
+    problems.push('TEST_URL is required: this profile has no default store');
+  } else {
+    try {
+      const url = new URL(rawStoreUrl);
+      if (url.protocol !== 'https:') problems.push(`TEST_URL must use https: "${rawStoreUrl}"`);
+      storeUrl = url.origin;
+    } catch {
+      problems.push(`TEST_URL is not a valid URL: "${rawStoreUrl}"`);
+    }
+  }
+
+  const themeId = profile.theme === 'recorded' ? null : read(env, 'TEST_THEME_ID') ?? null;
+  if (profile.theme === 'preview' && !themeId) {
+    problems.push('TEST_THEME_ID is required: this profile tests an unpublished theme');
+  }
+  if (profile.theme === 'live' && themeId) {
+    problems.push('TEST_THEME_ID is set but this profile tests the published theme; use a preview profile such as us-preview');
+  }
+  if (themeId && !/^\d+$/.test(themeId)) {
+    problems.push(`TEST_THEME_ID must be a numeric Shopify theme ID: "${themeId}"`);
+  }
+
+  const password = read(env, 'STORE_PASSWORD');
+
+  const record = read(env, 'RECORD') === '1';
+  if (record && profile.replay) {
+    problems.push('RECORD=1 needs a live profile; the replay profile never contacts the store');
+  }
+
+  const perfBudgets = (read(env, 'PERF_BUDGETS') ?? 'off') as PerfBudgetMode;
+  if (!PERF_BUDGET_MODES.includes(perfBudgets)) {
+    problems.push(`PERF_BUDGETS must be one of ${PERF_BUDGET_MODES.join(', ')}: "${perfBudgets}"`);
+  }
+
+  const pageErrors = (read(env, 'PAGE_ERRORS') ?? 'warn') as PageErrorPolicy;
+  if (!PAGE_ERROR_POLICIES.includes(pageErrors)) {
+    problems.push(`PAGE_ERRORS must be one of ${PAGE_ERROR_POLICIES.join(', ')}: "${pageErrors}"`);
+  }
+
+  const thirdParty = (read(env, 'THIRD_PARTY') ?? 'allow') as ThirdPartyProfile;
+  if (!THIRD_PARTY_PROFILES.includes(thirdParty)) {
+    problems.push(`THIRD_PARTY must be one of ${THIRD_PARTY_PROFILES.join(', ')}: "${thirdParty}"`);
+  }
+
+  const visualMaxDiffRatio = Number(read(env, 'VISUAL_MAX_DIFF_RATIO') ?? '0.01');
+  if (!(visualMaxDiffRatio >= 0 && visualMaxDiffRatio <= 1)) {
+    problems.push(`VISUAL_MAX_DIFF_RATIO must be a number between 0 and 1: "${env['VISUAL_MAX_DIFF_RATIO']}"`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems, profileName);
+  }
+
+  return {
+    profile: profileName as ProfileName,
+    storeUrl,
+    themeId,
+    storePassword: password ? new Secret(password) : null,
+    record,
+    replay: profile.replay,
+    replayFixtureVersion: read(env, 'REPLAY_FIXTURE_VERSION') ?? 'v1',
+    a11yUpdateBaseline: read(env, 'A11Y_UPDATE_BASELINE') === '1',
+    a11yTests: read(env, 'A11Y_TESTS') === '1' || read(env, 'A11Y_UPDATE_BASELINE') === '1',
+    perfBudgets,
+    pageErrors,
+    thirdParty,
+    visualMaxDiffRatio,
+    visualTests: read(env, 'VISUAL_TESTS') === '1',
+  };
+}
+
+/**
+ * Reads the store password for logging in
+ * @param testConfig - The configuration; defaults to this run's
+ * @throws ConfigError when STORE_PASSWORD is unset, including in the replay profile
+ */
+export function requireStorePassword(testConfig: TestConfig = config): Secret {
+  if (!testConfig.storePassword) {
+    throw new ConfigError(['STORE_PASSWORD is required to get past the storefront password page'], testConfig.profile);
+  }
+  return testConfig.storePassword;
+}
+
+/**
+ * Adds the preview theme to a store path when the configuration tests an unpublished theme
+ * @param path - A store path, optionally with a query string (e.g. '/', '/collections/x?page=2')
+ * @param testConfig - The configuration; defaults to this run's
+ * @returns The path with preview_theme_id appended, or unchanged for the published theme
+ */
+export function withPreviewTheme(path: string, testConfig: TestConfig = config): string {
+  if (!testConfig.themeId || /[?&]preview_theme_id=/.test(path)) return path;
+  return `${path}${path.includes('?') ? '&' : '?'}preview_theme_id=${testConfig.themeId}`;
+}
+
+/**
+ * Formats the configuration for logs with secrets masked
+ * @param testConfig - The validated configuration
+ */
+export function describeConfig(testConfig: TestConfig): string {
+  return [
+    `[Config] Profile ${testConfig.profile}: ${PROFILES[testConfig.profile].description}`,
+    `  store:    ${testConfig.storeUrl}`,
+    `  theme:    ${testConfig.replay ? 'recorded' : testConfig.themeId ?? 'published'}`,
+    `  password: ${testConfig.storePassword ?? 'not set'}`,
+    `  mode:     ${testConfig.replay ? `replay (${testConfig.replayFixtureVersion})` : testConfig.record ? `record (${testConfig.replayFixtureVersion})` : 'live'}`,
+  ].join('\n');
+}
+
+/**
+ * Configuration for this run, validated when first imported
+ */
+export const config = loadConfig(process.env);
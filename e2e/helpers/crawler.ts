@@ -0,0 +1,245 @@
+import type { APIRequestContext } from '@playwright/test';
+
+/**
+ * Broken link and image crawler
+ *
+ * Starts from one page, collects every link and image a PageScanner finds on it,
+ * follows working links matching the `follow` patterns up to `maxDepth`, and checks
+ * each collected URL once with a UrlChecker. Scanning and checking are injected so the
+ * same crawl runs against the store (NavigationPage + page.request) or a local fixture site.
+ */
+
+/**
+ * Kind of resource a URL was found as
+ */
+export type ResourceKind = 'link' | 'image';
+
+/**
+ * Absolute URLs of the links and images found on one page
+ */
+export type PageResources = {
+  links: string[];
+  images: string[];
+};
+
+/**
+ * One response in a redirect chain
+ */
+export type RedirectHop = {
+  url: string;
+  status: number;
+};
+
+/**
+ * Result of requesting a URL and following its redirects
+ */
+export type UrlStatus = {
+  // Status of the final response; null when the request itself failed
+  status: number | null;
+  // URL of the final response after redirects
+  finalUrl: string;
+  // Every redirect response before the final one, in order
+  redirectChain: RedirectHop[];
+  error?: string;
+};
+
+/**
+ * A checked URL with the pages it was found on
+ */
+export type CheckedUrl = UrlStatus & {
+  url: string;
+  kind: ResourceKind;
+  foundOn: string[];
+};
+
+/**
+ * Result of a crawl
+ */
+export type CrawlReport = {
+  startUrl: string;
+  pages: string[];
+  checked: CheckedUrl[];
+  broken: CheckedUrl[];
+  redirected: CheckedUrl[];
+};
+
+/**
+ * Collects the resources of a page
+ */
+export type PageScanner = (url: string) => Promise<PageResources>;
+
+/**
+ * Requests a URL and reports its status and redirect chain
+ */
+export type UrlChecker = (url: string) => Promise<UrlStatus>;
+
+/**
+ * Where a crawl starts and how far it goes
+ */
+export type CrawlOptions = {
+  // Page the crawl starts from
+  startUrl: string;
+  // How many links away from the start page to scan; 0 scans the start page only
+  maxDepth: number;
+  // Pages whose resources are collected when linked (same origin as startUrl only)
+  follow: RegExp[];
+  // URLs that are checked; defaults to every http(s) URL
+  include?: RegExp[];
+  // URLs that are neither followed nor checked
+  exclude?: RegExp[];
+  // Upper limit on scanned pages
+  maxPages?: number;
+};
+
+/**
+ * Redirects followed before a URL is reported as a redirect loop
+ */
+const MAX_REDIRECTS = 10;
+
+/**
+ * Strips the fragment so `/page#a` and `/page#b` are checked once
+ * @param url - An absolute URL
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+/**
+ * Checks whether a URL should be checked under the crawl options
+ * @param url - An absolute URL
+ * @param options - The crawl options
+ */
+export function isInScope(url: string, options: Pick<CrawlOptions, 'include' | 'exclude'>): boolean {
+  if (!/^https?:/.test(url)) return false;
+  if (options.exclude?.some((pattern) => pattern.test(url))) return false;
+  return !options.include || options.include.some((pattern) => pattern.test(url));
+}
+
+/**
+ * Checks whether a checked URL is broken: a failed request or a 4xx/5xx final status
+ * @param result - The URL status
+ */
+export function isBroken(result: UrlStatus): boolean {
+  return result.status === null || result.status >= 400;
+}
+
+/**
+ * Crawls from the start page and checks every link and image found
+ * @param scan - Collects the resources of a page
+ * @param check - Requests a URL and reports its status
+ * @param options - Depth, URL patterns and page limit
+ */
+export async function crawlSite(scan: PageScanner, check: UrlChecker, options: CrawlOptions): Promise<CrawlReport> {
+  const origin = new URL(options.startUrl).origin;
+  const found = new Map<string, { kind: ResourceKind; foundOn: Set<string> }>();
+  const statuses = new Map<string, UrlStatus>();
+  const queue = [{ url: normalizeUrl(options.startUrl), depth: 0 }];
+  const visited = new Set(queue.map((entry) => entry.url));
+  const pages: string[] = [];
+
+  const record = (url: string, kind: ResourceKind, pageUrl: string) => {
+    const entry = found.get(url) ?? { kind, foundOn: new Set<string>() };
+    entry.foundOn.add(pageUrl);
+    found.set(url, entry);
+  };
+  const checkOnce = async (url: string) => {
+    if (!statuses.has(url)) statuses.set(url, await check(url));
+    return statuses.get(url)!;
+  };
+  const isFollowable = (url: string) =>
+    new URL(url).origin === origin && isInScope(url, options) && options.follow.some((pattern) => pattern.test(url));
+
+  while (queue.length > 0 && pages.length < (options.maxPages ?? Infinity)) {
+    const { url: pageUrl, depth } = queue.shift()!;
+    const resources = await scan(pageUrl);
+    pages.push(pageUrl);
+
+    for (const image of resources.images.map(normalizeUrl)) {
+      if (isInScope(image, options)) record(image, 'image', pageUrl);
+    }
+
+    for (const link of resources.links.map(normalizeUrl)) {
+      if (!isInScope(link, options)) continue;
+      record(link, 'link', pageUrl);
+      if (depth >= options.maxDepth || !isFollowable(link)) continue;
+
+      // Only working pages are scanned, and redirected links are scanned at their destination
+      const status = await checkOnce(link);
+      const destination = normalizeUrl(status.finalUrl);
+      if (!isBroken(status) && isFollowable(destination) && !visited.has(destination)) {
+        visited.add(destination);
+        queue.push({ url: destination, depth: depth + 1 });
+      }
+    }
+  }
+
+  const checked: CheckedUrl[] = [];
+  for (const [url, { kind, foundOn }] of found) {
+    checked.push({ url, kind, foundOn: [...foundOn], ...(await checkOnce(url)) });
+  }
+
+  return {
+    startUrl: options.startUrl,
+    pages,
+    checked,
+    broken: checked.filter(isBroken),
+    redirected: checked.filter((result) => result.redirectChain.length > 0),
+  };
+}
+
+/**
+ * Creates a checker that requests URLs through a Playwright request context
+ * Redirects are followed one at a time so every hop is reported
+ * @param context - Request context carrying the store session (e.g. `page.request`)
+ */
+export function createRequestChecker(context: APIRequestContext): UrlChecker {
+  return async (url) => {
+    const redirectChain: RedirectHop[] = [];
+    let current = url;
+
+    try {
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const response = await context.get(current, { maxRedirects: 0, failOnStatusCode: false });
+        const location = response.headers()['location'];
+        await response.dispose();
+
+        if (response.status() < 300 || response.status() >= 400 || !location) {
+          return { status: response.status(), finalUrl: current, redirectChain };
+        }
+        redirectChain.push({ url: current, status: response.status() });
+        current = new URL(location, current).toString();
+      }
+      return { status: null, finalUrl: current, redirectChain, error: `More than ${MAX_REDIRECTS} redirects` };
+    } catch (error) {
+      return { status: null, finalUrl: current, redirectChain, error: (error as Error).message.split('\n')[0] };
+    }
+  };
+}
+
+/**
+ * Formats a crawl report listing broken URLs and redirect chains with the pages they were found on
+ * @param report - The crawl report
+ */
+export function formatCrawlReport(report: CrawlReport): string {
+  const foundOn = (result: CheckedUrl) => result.foundOn.map((page) => `      found on ${page}`);
+  const chain = (result: CheckedUrl) =>
+    [...result.redirectChain, { url: result.finalUrl, status: result.status ?? 'failed' }]
+      .map((hop) => `${hop.status} ${hop.url}`)
+      .join(' -> ');
+
+  const lines = [
+    `Crawled ${report.pages.length} page(s) from ${report.startUrl}, checked ${report.checked.length} URL(s)`,
+    '',
+    `Broken: ${report.broken.length}`,
+    ...report.broken.flatMap((result) => [
+      `  [${result.kind}] ${result.url}: ${result.error ?? chain(result)}`,
+      ...foundOn(result),
+    ]),
+    '',
+    `Redirects: ${report.redirected.length}`,
+    ...report.redirected.flatMap((result) => [`  [${result.kind}] ${chain(result)}`, ...foundOn(result)]),
+  ];
+  return lines.join('\n');
+}
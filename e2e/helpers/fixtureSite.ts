@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+
+/**
+ * Local fixture site
+ *
+ * Serves a directory of static pages on a random localhost port so tooling such as
+ * the link crawler can be tested without the store. `/collections/glass` is served
+ * from `collections/glass.html`, `/` from `index.html`. An optional `routes.json`
+ * maps paths to fixed responses, e.g. `{ "/old": { "status": 301, "location": "/new" } }`.
+ */
+
+/**
+ * A fixed response from routes.json
+ */
+type FixtureRoute = {
+  status: number;
+  location?: string;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.css': 'text/css',
+  '.js': 'application/javascript',
+};
+
+/**
+ * A running fixture site
+ */
+export type FixtureSite = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+/**
+ * Starts serving a fixture directory
+ * @param root - Directory holding the fixture pages
+ */
+export async function startFixtureSite(root: string): Promise<FixtureSite> {
+  const routesPath = path.join(root, 'routes.json');
+  const routes: Record<string, FixtureRoute> = fs.existsSync(routesPath)
+    ? JSON.parse(fs.readFileSync(routesPath, 'utf-8'))
+    : {};
+
+  const server = http.createServer((request, response) => {
+    const pathname = new URL(request.url ?? '/', 'http://localhost').pathname;
+    const route = routes[pathname];
+    if (route) {
+      response.writeHead(route.status, route.location ? { location: route.location } : {});
+      response.end();
+      return;
+    }
+
+    const relativePath = pathname === '/' ? 'index.html' : path.extname(pathname) ? pathname : `${pathname}.html`;
+    const filePath = path.join(root, relativePath);
+    if (!filePath.startsWith(root) || !fs.existsSync(filePath)) {
+      response.writeHead(404, { 'content-type': 'text/plain' });
+      response.end(`Not found: ${pathname}`);
+      return;
+    }
+
+    response.writeHead(200, { 'content-type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+    response.end(fs.readFileSync(filePath));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
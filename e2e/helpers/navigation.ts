@@ -0,0 +1,221 @@
+import type { FullConfig } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NavigationNode } from '../pages/NavigationPage';
+
+/**
+ * Primary navigation structure
+ *
+ * NavigationPage reads the desktop mega menu and the mobile menu drawer into
+ * NavigationNode trees. This module checks those trees against each other and
+ * against the committed snapshot in data/navigationSnapshot.json, and reports
+ * a menu change as a structural diff: items added, removed, relinked or moved
+ * within their menu.
+ */
+
+/**
+ * One structural difference between two navigation trees
+ * path is the item's label trail (e.g. 'Products > Glass Bottles & Jars')
+ */
+export type NavigationDifference = {
+  kind: 'added' | 'removed' | 'changed' | 'reordered';
+  path: string;
+  expected?: string;
+  actual?: string;
+  // Items below an added or removed item, which aren't listed separately
+  nested?: number;
+};
+
+/**
+ * Outcome of comparing a navigation tree with the snapshot
+ * 'created' and 'updated' mean the snapshot file was written
+ */
+export type NavigationSnapshotResult = {
+  status: 'matched' | 'changed' | 'missing' | 'created' | 'updated';
+  differences: NavigationDifference[];
+};
+
+/**
+ * Committed navigation snapshot, the menu the store is expected to have
+ */
+export const NAVIGATION_SNAPSHOT_PATH = path.resolve(__dirname, '../data/navigationSnapshot.json');
+
+/**
+ * The only project that checks and writes the snapshot, so parallel projects never write it at once
+ * The mega menu is the same in every desktop browser
+ */
+export const NAVIGATION_SNAPSHOT_PROJECT = 'chromium';
+
+const LOCALE_PREFIX = /^\/[a-z]{2}(-[a-z]{2})?(?=\/)/i;
+
+/**
+ * Finds what a menu link points to
+ * Locale prefixes such as /en-ca are ignored
+ * @param href - The link path, or null for items without a link
+ * @returns 'collection' for /collections/<handle>, 'page' for /pages/<handle>, otherwise null
+ */
+export function getNavigationTarget(href: string | null): 'collection' | 'page' | null {
+  const pathname = href?.replace(LOCALE_PREFIX, '') ?? '';
+  if (/^\/collections\/[^/]+\/?$/.test(pathname)) return 'collection';
+  if (/^\/pages\/[^/]+\/?$/.test(pathname)) return 'page';
+  return null;
+}
+
+/**
+ * Lists the leaves of a navigation tree, items without a submenu
+ * @param nodes - The navigation tree
+ * @param parents - Labels of the enclosing menu items
+ * @returns Each leaf with its label trail
+ */
+export function getNavigationLeaves(
+  nodes: NavigationNode[],
+  parents: string[] = []
+): { path: string; href: string | null }[] {
+  return nodes.flatMap((node) => {
+    const trail = [...parents, node.label];
+    return node.children.length > 0
+      ? getNavigationLeaves(node.children, trail)
+      : [{ path: trail.join(' > '), href: node.href }];
+  });
+}
+
+/**
+ * Finds leaves that don't link to a collection or a page
+ * @param nodes - The navigation tree
+ * @returns One line per leaf, e.g. 'Resources > Blog (/blogs/news)'
+ */
+export function findUnresolvedLeaves(nodes: NavigationNode[]): string[] {
+  return getNavigationLeaves(nodes)
+    .filter((leaf) => getNavigationTarget(leaf.href) === null)
+    .map((leaf) => `${leaf.path} (${leaf.href ?? 'no link'})`);
+}
+
+/**
+ * Counts every item below a node
+ */
+function countNested(node: NavigationNode): number {
+  return node.children.reduce((total, child) => total + 1 + countNested(child), 0);
+}
+
+/**
+ * Compares two navigation trees item by item
+ * An added or removed item is reported once, with the number of items below it
+ * @param expected - The expected tree (e.g. the snapshot or the desktop mega menu)
+ * @param actual - The tree read from the store
+ * @param parents - Labels of the enclosing menu items
+ * @returns Every difference, in expected menu order with additions after their siblings
+ */
+export function diffNavigationTrees(
+  expected: NavigationNode[],
+  actual: NavigationNode[],
+  parents: string[] = []
+): NavigationDifference[] {
+  const differences: NavigationDifference[] = [];
+  const trail = (node: NavigationNode) => [...parents, node.label].join(' > ');
+  const actualByLabel = new Map(actual.map((node) => [node.label, node]));
+  const expectedLabels = new Set(expected.map((node) => node.label));
+
+  for (const node of expected) {
+    const match = actualByLabel.get(node.label);
+    if (!match) {
+      differences.push({ kind: 'removed', path: trail(node), expected: node.href ?? undefined, nested: countNested(node) });
+      continue;
+    }
+    if (node.href !== match.href) {
+      differences.push({ kind: 'changed', path: trail(node), expected: node.href ?? 'no link', actual: match.href ?? 'no link' });
+    }
+    differences.push(...diffNavigationTrees(node.children, match.children, [...parents, node.label]));
+  }
+
+  for (const node of actual) {
+    if (!expectedLabels.has(node.label)) {
+      differences.push({ kind: 'added', path: trail(node), actual: node.href ?? undefined, nested: countNested(node) });
+    }
+  }
+
+  // Items both menus have, in a different order
+  const expectedOrder = expected.map((node) => node.label).filter((label) => actualByLabel.has(label));
+  const actualOrder = actual.map((node) => node.label).filter((label) => expectedLabels.has(label));
+  if (expectedOrder.join('\n') !== actualOrder.join('\n')) {
+    differences.push({
+      kind: 'reordered',
+      path: parents.length > 0 ? parents.join(' > ') : '(top level)',
+      expected: expectedOrder.join(', '),
+      actual: actualOrder.join(', '),
+    });
+  }
+
+  return differences;
+}
+
+/**
+ * Formats navigation differences as a readable diff
+ * `-` items exist only in the expected tree, `+` items only in the actual one
+ * @param differences - The differences from diffNavigationTrees
+ * @param sides - Names of the expected and actual trees, used in the header
+ */
+export function formatNavigationDiff(
+  differences: NavigationDifference[],
+  sides: { expected: string; actual: string } = { expected: 'snapshot', actual: 'store' }
+): string {
+  if (differences.length === 0) return `Navigation matches: ${sides.expected} and ${sides.actual}`;
+
+  const nested = (difference: NavigationDifference) =>
+    difference.nested ? `, with ${difference.nested} nested item(s)` : '';
+  const lines = differences.map((difference) => {
+    switch (difference.kind) {
+      case 'removed':
+        return `- ${difference.path}${difference.expected ? ` (${difference.expected})` : ''}${nested(difference)}`;
+      case 'added':
+        return `+ ${difference.path}${difference.actual ? ` (${difference.actual})` : ''}${nested(difference)}`;
+      case 'changed':
+        return `~ ${difference.path}: ${difference.expected} -> ${difference.actual}`;
+      case 'reordered':
+        return `~ ${difference.path} order: ${difference.expected} -> ${difference.actual}`;
+    }
+  });
+  return [`Navigation: ${sides.expected} (-) vs ${sides.actual} (+)`, ...lines].join('\n');
+}
+
+/**
+ * Reads the committed navigation snapshot
+ * @param snapshotPath - The snapshot path
+ * @returns The snapshot tree, or null when no snapshot has been written yet
+ */
+export function readNavigationSnapshot(snapshotPath: string = NAVIGATION_SNAPSHOT_PATH): NavigationNode[] | null {
+  if (!fs.existsSync(snapshotPath)) return null;
+  return JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as NavigationNode[];
+}
+
+/**
+ * Compares a navigation tree with the snapshot, writing the snapshot like Playwright's own snapshots:
+ * when it is missing, or when it differs and the run updates snapshots
+ * @param tree - The tree read from the store
+ * @param updateSnapshots - The run's updateSnapshots setting (--update-snapshots)
+ * @param snapshotPath - The snapshot path
+ */
+export function checkNavigationSnapshot(
+  tree: NavigationNode[],
+  updateSnapshots: FullConfig['updateSnapshots'],
+  snapshotPath: string = NAVIGATION_SNAPSHOT_PATH
+): NavigationSnapshotResult {
+  const write = () => {
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, JSON.stringify(tree, null, 2) + '\n');
+  };
+
+  const snapshot = readNavigationSnapshot(snapshotPath);
+  if (snapshot === null) {
+    if (updateSnapshots === 'none') return { status: 'missing', differences: [] };
+    write();
+    return { status: 'created', differences: [] };
+  }
+
+  const differences = diffNavigationTrees(snapshot, tree);
+  if (differences.length === 0) return { status: 'matched', differences };
+  if (updateSnapshots === 'all' || updateSnapshots === 'changed') {
+    write();
+    return { status: 'updated', differences };
+  }
+  return { status: 'changed', differences };
+}
@@ -0,0 +1,125 @@
+import type { BrowserContext, Page, Request, Response } from '@playwright/test';
+import { config } from './config';
+
+/**
+ * JavaScript errors, crashes and failed requests during a test
+ *
+ * A theme script can throw and leave the mega menu dead while every locator still
+ * resolves. A PageErrorMonitor listens on the browser context, so popups and new
+ * tabs are covered too, and collects uncaught exceptions, page crashes, console
+ * errors, and first-party requests that fail or answer 4xx/5xx. Known noise is
+ * filtered out with an allowlist (data/pageErrorAllowlist.ts).
+ */
+
+/**
+ * How collected page errors are applied: ignored, annotated as a warning, or failing the test
+ */
+export type PageErrorPolicy = 'off' | 'warn' | 'fail';
+
+export type PageEventType = 'pageerror' | 'crash' | 'console' | 'request-failed' | 'http-error';
+
+/**
+ * One error seen during a test
+ * url is the page for pageerror, crash and console events, and the request for the others
+ */
+export type PageEvent = {
+  type: PageEventType;
+  message: string;
+  url: string;
+};
+
+/**
+ * Known noise that is not reported
+ * pattern is matched against the event's message and URL; type limits the entry to one kind of event
+ */
+export type PageErrorAllowlistEntry = {
+  type?: PageEventType;
+  pattern: RegExp;
+  reason: string;
+};
+
+/**
+ * Hosts whose requests are checked; third-party requests are only reported through console errors
+ */
+export const FIRST_PARTY_HOSTS = [new URL(config.storeUrl).host, 'cdn.shopify.com'];
+
+/**
+ * Checks whether a request URL belongs to the store or its CDN
+ * @param url - The request URL
+ */
+export function isFirstPartyUrl(url: string): boolean {
+  try {
+    return FIRST_PARTY_HOSTS.includes(new URL(url).host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Splits events into those to report and those the allowlist covers
+ * @param events - The collected events
+ * @param allowlist - The allowlist entries
+ */
+export function filterPageEvents(
+  events: PageEvent[],
+  allowlist: PageErrorAllowlistEntry[]
+): { reported: PageEvent[]; allowed: PageEvent[] } {
+  const reported: PageEvent[] = [];
+  const allowed: PageEvent[] = [];
+  for (const event of events) {
+    const isAllowed = allowlist.some(
+      (entry) => (!entry.type || entry.type === event.type) && (entry.pattern.test(event.message) || entry.pattern.test(event.url))
+    );
+    (isAllowed ? allowed : reported).push(event);
+  }
+  return { reported, allowed };
+}
+
+/**
+ * Formats events as one line each for the HTML report and error messages
+ * @param events - The events to format
+ */
+export function formatPageEvents(events: PageEvent[]): string {
+  return events.map((event) => `[${event.type}] ${event.message} (${event.url})`).join('\n');
+}
+
+/**
+ * Collects PageEvents from every page of a browser context
+ */
+export class PageErrorMonitor {
+  readonly events: PageEvent[] = [];
+
+  constructor(readonly context: BrowserContext) {}
+
+  /**
+   * Starts listening; pages opened later in the context are watched as well
+   */
+  start(): void {
+    this.context.pages().forEach((page) => this.watchPage(page));
+    this.context.on('page', (page) => this.watchPage(page));
+    this.context.on('requestfailed', (request) => this.onRequestFailed(request));
+    this.context.on('response', (response) => this.onResponse(response));
+  }
+
+  private watchPage(page: Page): void {
+    page.on('pageerror', (error) => this.events.push({ type: 'pageerror', message: error.message, url: page.url() }));
+    page.on('crash', () => this.events.push({ type: 'crash', message: 'Page crashed', url: page.url() }));
+    page.on('console', (message) => {
+      // Failed resources are reported by the request listeners with their status
+      if (message.type() !== 'error' || message.text().startsWith('Failed to load resource')) return;
+      this.events.push({ type: 'console', message: message.text(), url: page.url() });
+    });
+  }
+
+  private onRequestFailed(request: Request): void {
+    if (!isFirstPartyUrl(request.url())) return;
+    const message = `${request.method()} failed: ${request.failure()?.errorText ?? 'unknown error'}`;
+    this.events.push({ type: 'request-failed', message, url: request.url() });
+  }
+
+  private onResponse(response: Response): void {
+    if (response.status() < 400 || !isFirstPartyUrl(response.url())) return;
+    const message = `${response.request().method()} ${response.status()} ${response.statusText()}`.trim();
+    this.events.push({ type: 'http-error', message, url: response.url() });
+  }
+}
@@ -0,0 +1,213 @@
+import type { Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Core Web Vitals and performance budgets
+ *
+ * A PerformanceRecorder installs PerformanceObservers in every document the page
+ * loads and receives one NavigationMetrics entry per navigation: when BasePage.goto
+ * leaves a page, when the document is hidden (clicks in page objects), and when the
+ * test ends. Each entry is checked against the budget file of its page template.
+ */
+
+/**
+ * How budgets are applied: not recorded, recorded and reported, or enforced
+ */
+export type PerfBudgetMode = 'off' | 'report' | 'enforce';
+
+/**
+ * Page templates that have a budget file in data/performance-budgets/
+ */
+export type PageTemplate = 'home' | 'collection' | 'product';
+
+/**
+ * Metrics measured for one navigation
+ * Metrics the browser doesn't support (e.g. LCP and CLS in WebKit) are null
+ */
+export type NavigationMetrics = {
+  url: string;
+  lcp: number | null;
+  cls: number | null;
+  inp: number | null;
+  tbt: number | null;
+  transferSize: number;
+  requestCount: number;
+};
+
+/**
+ * Upper limits for one page template; times in ms, sizes in bytes
+ */
+export type PerformanceBudget = Record<keyof Omit<NavigationMetrics, 'url'>, number>;
+
+/**
+ * One metric of one navigation compared with its budget
+ */
+export type BudgetCheck = {
+  metric: keyof PerformanceBudget;
+  value: number | null;
+  budget: number;
+  status: 'pass' | 'fail' | 'not measured';
+};
+
+/**
+ * A layout-shift entry, which lib.dom doesn't declare
+ */
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+/**
+ * An event timing entry; interactionId groups the events of one interaction and is 0 for others
+ */
+interface InteractionEntry extends PerformanceEventTiming {
+  interactionId?: number;
+}
+
+declare global {
+  interface Window {
+    // Installed by observePerformance; reports the document's metrics once
+    __flushPerfMetrics?: () => Promise<void>;
+    // Binding exposed by PerformanceRecorder.start()
+    __reportPerfMetrics?: (metrics: NavigationMetrics) => Promise<void>;
+  }
+}
+
+const BUDGETS_DIR = path.resolve(__dirname, '../data/performance-budgets');
+
+/**
+ * Finds the page template of a storefront URL
+ * @param url - The navigated URL
+ * @returns The template, or null for pages without a budget
+ */
+export function getPageTemplate(url: string): PageTemplate | null {
+  const { pathname } = new URL(url);
+  if (pathname === '/') return 'home';
+  if (/\/products\//.test(pathname)) return 'product';
+  if (/^\/collections\/[^/]+\/?$/.test(pathname)) return 'collection';
+  return null;
+}
+
+/**
+ * Reads the budget file of a page template
+ * @param template - The page template
+ */
+export function loadBudget(template: PageTemplate): PerformanceBudget {
+  return JSON.parse(fs.readFileSync(path.join(BUDGETS_DIR, `${template}.json`), 'utf-8'));
+}
+
+/**
+ * Compares one navigation's metrics with a budget
+ * @param metrics - The measured metrics
+ * @param budget - The template's budget
+ * @returns One check per budgeted metric
+ */
+export function checkBudget(metrics: NavigationMetrics, budget: PerformanceBudget): BudgetCheck[] {
+  return (Object.keys(budget) as (keyof PerformanceBudget)[]).map((metric) => {
+    const value = metrics[metric];
+    if (value === null) return { metric, value, budget: budget[metric], status: 'not measured' };
+    return { metric, value, budget: budget[metric], status: value <= budget[metric] ? 'pass' : 'fail' };
+  });
+}
+
+/**
+ * Formats budget checks as a plain-text table for the HTML report
+ * @param url - The navigated URL
+ * @param template - The page template
+ * @param checks - The budget checks
+ */
+export function formatBudgetChecks(url: string, template: PageTemplate, checks: BudgetCheck[]): string {
+  const rows = checks.map((check) => {
+    const value = check.value === null ? '-' : String(Math.round(check.value * 1000) / 1000);
+    return `${check.metric.padEnd(14)}${value.padStart(12)}${String(check.budget).padStart(12)}  ${check.status}`;
+  });
+  return [`${template}: ${url}`, `${'metric'.padEnd(14)}${'value'.padStart(12)}${'budget'.padStart(12)}  status`, ...rows].join('\n');
+}
+
+/**
+ * Runs in every document; observes the metrics and reports them once per document
+ */
+function observePerformance() {
+  if (window !== window.top) return;
+  const supported = PerformanceObserver.supportedEntryTypes;
+  const metrics = {
+    lcp: null as number | null,
+    cls: supported.includes('layout-shift') ? 0 : null,
+    inp: null as number | null,
+    tbt: supported.includes('longtask') ? 0 : null,
+  };
+  let firstContentfulPaint = 0;
+
+  const observe = <T extends PerformanceEntry>(type: string, onEntry: (entry: T) => void, options: Record<string, unknown> = {}) => {
+    if (!supported.includes(type)) return;
+    new PerformanceObserver((list) => list.getEntries().forEach((entry) => onEntry(entry as T))).observe({ type, buffered: true, ...options });
+  };
+
+  observe<LargestContentfulPaint>('largest-contentful-paint', (entry) => (metrics.lcp = entry.startTime));
+  observe<LayoutShiftEntry>('layout-shift', (entry) => {
+    if (!entry.hadRecentInput && metrics.cls !== null) metrics.cls += entry.value;
+  });
+  observe<PerformancePaintTiming>('paint', (entry) => {
+    if (entry.name === 'first-contentful-paint') firstContentfulPaint = entry.startTime;
+  });
+  // Total Blocking Time: the part of each long task beyond 50ms, after first paint
+  observe('longtask', (entry) => {
+    if (entry.startTime >= firstContentfulPaint && metrics.tbt !== null) metrics.tbt += Math.max(0, entry.duration - 50);
+  });
+  // Interaction to Next Paint: the slowest interaction seen on the page
+  observe<InteractionEntry>('event', (entry) => {
+    if (entry.interactionId) metrics.inp = Math.max(metrics.inp ?? 0, entry.duration);
+  }, { durationThreshold: 16 });
+
+  let reported: Promise<void> | null = null;
+  window.__flushPerfMetrics = () => {
+    if (reported) return reported;
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    reported = window.__reportPerfMetrics?.({
+      url: location.href,
+      ...metrics,
+      transferSize: (navigation?.transferSize ?? 0) + resources.reduce((total, entry) => total + entry.transferSize, 0),
+      requestCount: 1 + resources.length,
+    }) ?? Promise.resolve();
+    return reported;
+  };
+  addEventListener('pagehide', () => window.__flushPerfMetrics?.());
+}
+
+/**
+ * Reports the current document's metrics if they haven't been reported yet
+ * Safe to call on pages without the recorder (e.g. about:blank)
+ * @param page - The page to flush
+ */
+export async function flushPerformanceMetrics(page: Page): Promise<void> {
+  await page.evaluate(() => window.__flushPerfMetrics?.()).catch(() => {});
+}
+
+/**
+ * Collects NavigationMetrics for every document loaded in a page
+ */
+export class PerformanceRecorder {
+  readonly navigations: NavigationMetrics[] = [];
+
+  constructor(readonly page: Page) {}
+
+  /**
+   * Starts observing; must run before the first navigation
+   */
+  async start(): Promise<void> {
+    await this.page.exposeBinding('__reportPerfMetrics', (_source, metrics: NavigationMetrics) => {
+      this.navigations.push(metrics);
+    });
+    await this.page.addInitScript(observePerformance);
+  }
+
+  /**
+   * Reports the current document and returns every navigation recorded so far
+   */
+  async finish(): Promise<NavigationMetrics[]> {
+    await flushPerformanceMetrics(this.page);
+    return this.navigations;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Parses a storefront price string into a number
+ * @param text - Price text as displayed (e.g., '$1,234.56', 'From $3.00 USD')
+ * @returns The numeric amount, or null when no amount is present
+ */
+export function parsePrice(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Unit price shown next to a product price, e.g. '$2.49/ea' or '$0.21 / oz'
+ */
+export type UnitPrice = {
+  amount: number;
+  // The reference unit, e.g. 'ea', '100 ml'
+  per: string;
+};
+
+/**
+ * Parses a storefront unit price string
+ * @param text - Unit price text as displayed (e.g., '$2.49/ea', 'Unit price $0.21 per oz')
+ * @returns The amount and reference unit, or null when the text has no unit price
+ */
+export function parseUnitPrice(text: string): UnitPrice | null {
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(?:[A-Z]{3})?\s*(?:\/|per)\s*(.+)$/i);
+  return match ? { amount: parseFloat(match[1]), per: match[2].trim() } : null;
+}
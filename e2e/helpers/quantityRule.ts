@@ -0,0 +1,47 @@
+/**
+ * Quantity rules for product variants
+ *
+ * A variant can require a minimum order quantity, a maximum and an increment
+ * (e.g. case packs sold in multiples of 6). Shopify exposes the rule as
+ * `quantity_rule` in `/products/<handle>.js` and renders it as the min, max and
+ * step attributes of the quantity input.
+ */
+
+/**
+ * Quantity rule of one variant; max is null when there is no upper limit
+ */
+export type QuantityRule = {
+  min: number;
+  max: number | null;
+  increment: number;
+};
+
+/**
+ * Rule of a variant without quantity restrictions
+ */
+export const DEFAULT_QUANTITY_RULE: QuantityRule = { min: 1, max: null, increment: 1 };
+
+/**
+ * Checks a quantity against a rule
+ * As in Shopify, the quantity must be a multiple of the increment: min 6, increment 6 allows 6, 12, 18...
+ * and min 2, increment 5 allows 5, 10, 15...
+ * @param quantity - The quantity to check
+ * @param rule - The variant's quantity rule
+ */
+export function isQuantityAllowed(quantity: number, rule: QuantityRule): boolean {
+  if (!Number.isInteger(quantity) || quantity < rule.min) return false;
+  if (rule.max !== null && quantity > rule.max) return false;
+  return quantity % rule.increment === 0;
+}
+
+/**
+ * Rounds a quantity up to the next quantity the rule allows, capped at the maximum
+ * @param quantity - The requested quantity
+ * @param rule - The variant's quantity rule
+ * @returns The nearest allowed quantity at or above the request, or the largest allowed one
+ */
+export function roundToQuantityRule(quantity: number, rule: QuantityRule): number {
+  const rounded = Math.ceil(Math.max(quantity, rule.min) / rule.increment) * rule.increment;
+  if (rule.max === null || rounded <= rule.max) return rounded;
+  return Math.floor(rule.max / rule.increment) * rule.increment;
+}
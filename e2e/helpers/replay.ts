@@ -0,0 +1,170 @@
+import type { BrowserContext, TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+
+/**
+ * Offline storefront record/replay
+ *
+ * RECORD=1 runs the suite against the live store and saves every storefront
+ * response into a HAR file per project and test under `recordings/<version>/<project>/`.
+ * Projects render different layouts and request different assets, so each replays its own recording.
+ * The replay profile (TEST_ENV=replay) serves those HAR files through route interception, so the page
+ * objects and `baseURL` keep pointing at the store while nothing leaves the machine.
+ */
+
+/**
+ * Hosts whose responses are recorded and replayed.
+ * The store itself plus the Shopify CDN that serves theme assets.
+ */
+const RECORDED_HOSTS = [new URL(config.storeUrl).host, 'cdn.shopify.com'];
+
+const RECORDED_URL_PATTERN = new RegExp(
+  `^https?://(${RECORDED_HOSTS.map((host) => host.replace(/\./g, '\\.')).join('|')})/`
+);
+
+/**
+ * Root directory holding the versioned recordings
+ */
+export const RECORDINGS_DIR = path.resolve(__dirname, '../recordings', config.replayFixtureVersion);
+
+/**
+ * A request that had no recorded response during a replay run
+ */
+export type ReplayMiss = {
+  method: string;
+  url: string;
+  resourceType: string;
+};
+
+/**
+ * Thrown when a replayed test requested storefront URLs that were never recorded
+ */
+export class ReplayMissError extends Error {
+  constructor(readonly misses: ReplayMiss[], readonly harPath: string) {
+    super(
+      `[Replay] ${misses.length} storefront request(s) have no recorded response in ${harPath}:\n` +
+        misses.map((miss) => `  ${miss.method} ${miss.url} (${miss.resourceType})`).join('\n') +
+        `\nRe-record with: npm run test:record -- --project=<project> --grep "<test title>"`
+    );
+    this.name = 'ReplayMissError';
+  }
+}
+
+/**
+ * Checks whether a URL belongs to one of the recorded hosts
+ * @param url - The request URL
+ */
+export function isRecordedHost(url: string): boolean {
+  return RECORDED_HOSTS.includes(new URL(url).host);
+}
+
+/**
+ * Builds the HAR path for a test, one file per project, spec file and test title
+ * @param testInfo - The running test's info
+ * @returns Absolute path of the HAR file
+ */
+export function getHarPath(testInfo: TestInfo): string {
+  const specName = path.basename(testInfo.file).replace(/\.spec\.ts$/, '');
+  const testSlug = testInfo.titlePath
+    .slice(1)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return path.join(RECORDINGS_DIR, testInfo.project.name, specName, `${testSlug}.har`);
+}
+
+/**
+ * Records storefront traffic for the current test into its HAR file.
+ * The HAR is written when the browser context closes.
+ * @param context - The test's browser context
+ * @param harPath - Where the HAR should be written
+ */
+export async function recordStorefront(context: BrowserContext, harPath: string): Promise<void> {
+  fs.mkdirSync(path.dirname(harPath), { recursive: true });
+  await context.routeFromHAR(harPath, {
+    update: true,
+    updateContent: 'embed',
+    updateMode: 'minimal',
+    url: RECORDED_URL_PATTERN,
+  });
+}
+
+/**
+ * Serves storefront traffic for the current test from its HAR file.
+ * Third-party requests are aborted; storefront requests missing from the
+ * recording are answered with a 404 explaining the miss and collected.
+ * @param context - The test's browser context
+ * @param harPath - The recorded HAR file
+ * @returns The list that collects replay misses while the test runs
+ */
+export async function replayStorefront(context: BrowserContext, harPath: string): Promise<ReplayMiss[]> {
+  if (!fs.existsSync(harPath)) {
+    throw new Error(
+      `[Replay] No recording found at ${harPath}. ` +
+        'Record it first with: npm run test:record'
+    );
+  }
+
+  const misses: ReplayMiss[] = [];
+
+  // Routes registered later take precedence, so this catch-all only sees
+  // requests the HAR below could not answer
+  await context.route('**/*', async (route) => {
+    const request = route.request();
+    if (!isRecordedHost(request.url())) {
+      await route.abort('blockedbyclient');
+      return;
+    }
+
+    const miss = { method: request.method(), url: request.url(), resourceType: request.resourceType() };
+    misses.push(miss);
+    console.warn(`[Replay] Miss: ${miss.method} ${miss.url}`);
+    await route.fulfill({
+      status: 404,
+      contentType: request.resourceType() === 'document' ? 'text/html' : 'text/plain',
+      body: `[Replay] No recorded response for ${miss.method} ${miss.url} in ${harPath}`,
+    });
+  });
+
+  await context.routeFromHAR(harPath, {
+    notFound: 'fallback',
+    url: RECORDED_URL_PATTERN,
+  });
+
+  return misses;
+}
+
+/**
+ * Wires record or replay mode into a test's browser context.
+ * Does nothing unless RECORD=1 is set or the replay profile is active.
+ * @param context - The test's browser context
+ * @param testInfo - The running test's info
+ * @returns A check to run after the test that fails on replay misses
+ */
+export async function setupStorefrontReplay(
+  context: BrowserContext,
+  testInfo: TestInfo
+): Promise<() => Promise<void>> {
+  const harPath = getHarPath(testInfo);
+
+  if (config.record) {
+    await recordStorefront(context, harPath);
+    return async () => {};
+  }
+
+  if (!config.replay) {
+    return async () => {};
+  }
+
+  const misses = await replayStorefront(context, harPath);
+  return async () => {
+    if (misses.length === 0) return;
+    await testInfo.attach('replay-misses', {
+      body: JSON.stringify(misses, null, 2),
+      contentType: 'application/json',
+    });
+    throw new ReplayMissError(misses, path.relative(process.cwd(), harPath));
+  };
+}
@@ -0,0 +1,435 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Run history and flakiness tracking
+ *
+ * The history reporter appends one RunRecord per test run to a local history
+ * store. This module reads and trims that store and derives trends from it:
+ * flakiness rates, slowest tests against their recent average, tests that
+ * started failing in the latest run, and the Slack payload posted by CI.
+ */
+
+/**
+ * Final outcome of a test in one run, as reported by Playwright's TestCase.outcome()
+ * 'flaky' means it failed at least once and then passed on a retry
+ */
+export type TestOutcome = 'expected' | 'unexpected' | 'flaky' | 'skipped';
+
+/**
+ * One test in one project during one run
+ */
+export type TestRunRecord = {
+  // Test plan ID from the title (e.g. 'PN-09'), or null for tests without one
+  testId: string | null;
+  title: string;
+  file: string;
+  project: string;
+  outcome: TestOutcome;
+  retries: number;
+  // Duration of the final attempt in ms
+  duration: number;
+  // Third-party profile the test ran with; not recorded for replay runs
+  thirdParty?: string;
+};
+
+/**
+ * One test run
+ */
+export type RunRecord = {
+  startedAt: string;
+  duration: number;
+  status: 'passed' | 'failed' | 'timedout' | 'interrupted';
+  profile: string;
+  themeId: string | null;
+  branch: string | null;
+  commit: string | null;
+  tests: TestRunRecord[];
+};
+
+/**
+ * The history store, oldest run first
+ */
+export type RunHistory = {
+  version: 1;
+  runs: RunRecord[];
+};
+
+/**
+ * Flakiness of one test in one project over the recorded runs
+ */
+export type FlakinessStat = {
+  key: string;
+  runs: number;
+  flaky: number;
+  failed: number;
+  // Share of runs that needed a retry to pass
+  flakinessRate: number;
+};
+
+/**
+ * Latest duration of one test in one project against its earlier average
+ */
+export type DurationTrend = {
+  key: string;
+  latest: number;
+  average: number | null;
+  // Change against the average in ms, null for a test without earlier runs
+  change: number | null;
+};
+
+/**
+ * Flakiness and duration of all tests run with one third-party profile
+ */
+export type ThirdPartyImpact = {
+  profile: string;
+  runs: number;
+  flaky: number;
+  failed: number;
+  flakinessRate: number;
+  averageDuration: number;
+};
+
+/**
+ * Everything the run summary reports about the latest run
+ */
+export type RunSummary = {
+  run: RunRecord;
+  totals: Record<TestOutcome, number>;
+  status: 'passed' | 'flaky' | 'failed';
+  newlyFailing: string[];
+  flakiest: FlakinessStat[];
+  slowest: DurationTrend[];
+};
+
+/**
+ * Directory holding the history store and the latest run summary
+ */
+export const RUN_HISTORY_DIR = path.resolve(__dirname, '../run-history');
+
+/**
+ * Default history store path
+ */
+export const RUN_HISTORY_PATH = path.join(RUN_HISTORY_DIR, 'history.json');
+
+/**
+ * Number of runs kept in the history store
+ */
+export const MAX_HISTORY_RUNS = 50;
+
+/**
+ * Extracts the test plan ID a test title starts with
+ * @param title - The test title (e.g. 'PN-09: Navigate to Glass Bottles & Jars')
+ * @returns The ID, or null when the title has none
+ */
+export function getTestId(title: string): string | null {
+  return title.match(/^([A-Z]{2,3}-\d+)\b/)?.[1] ?? null;
+}
+
+/**
+ * Builds the key a test is tracked under across runs
+ * The title includes the describe path, so tests that share an ID in several describes
+ * (e.g. PN-02 for each registered collection) and the same test in different projects
+ * are tracked separately
+ */
+export function getTestKey(test: Pick<TestRunRecord, 'title' | 'project'>): string {
+  return `${test.project} › ${test.title}`;
+}
+
+/**
+ * Reads the history store
+ * @param historyPath - The store path
+ * @returns The stored history, or an empty history when the file doesn't exist yet
+ */
+export function readRunHistory(historyPath: string = RUN_HISTORY_PATH): RunHistory {
+  if (!fs.existsSync(historyPath)) return { version: 1, runs: [] };
+  return JSON.parse(fs.readFileSync(historyPath, 'utf-8')) as RunHistory;
+}
+
+/**
+ * Writes the history store, creating its directory when needed
+ * @param history - The history to write
+ * @param historyPath - The store path
+ */
+export function writeRunHistory(history: RunHistory, historyPath: string = RUN_HISTORY_PATH): void {
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.writeFileSync(historyPath, JSON.stringify(history, null, 2) + '\n');
+}
+
+/**
+ * Adds a run to the history and drops the oldest runs beyond the limit
+ * @param history - The current history
+ * @param run - The run to add
+ * @param maxRuns - Number of runs to keep
+ * @returns A new history
+ */
+export function appendRun(history: RunHistory, run: RunRecord, maxRuns: number = MAX_HISTORY_RUNS): RunHistory {
+  return { version: 1, runs: [...history.runs, run].slice(-maxRuns) };
+}
+
+/**
+ * Computes how often each test needed a retry to pass
+ * Skipped runs don't count
+ * @param history - The run history
+ * @param minRuns - Tests with fewer runs are left out
+ * @returns Tests that were flaky at least once, flakiest first
+ */
+export function computeFlakiness(history: RunHistory, minRuns: number = 1): FlakinessStat[] {
+  const stats = new Map<string, FlakinessStat>();
+
+  for (const run of history.runs) {
+    for (const test of run.tests) {
+      if (test.outcome === 'skipped') continue;
+      const key = getTestKey(test);
+      const stat = stats.get(key) ?? { key, runs: 0, flaky: 0, failed: 0, flakinessRate: 0 };
+      stat.runs += 1;
+      if (test.outcome === 'flaky') stat.flaky += 1;
+      if (test.outcome === 'unexpected') stat.failed += 1;
+      stat.flakinessRate = stat.flaky / stat.runs;
+      stats.set(key, stat);
+    }
+  }
+
+  return [...stats.values()]
+    .filter((stat) => stat.flaky > 0 && stat.runs >= minRuns)
+    .sort((a, b) => b.flakinessRate - a.flakinessRate || b.flaky - a.flaky || a.key.localeCompare(b.key));
+}
+
+/**
+ * Lists the slowest tests of the latest run with their average duration in earlier runs
+ * @param history - The run history
+ * @param limit - Number of tests to return
+ * @returns Slowest tests first
+ */
+export function computeDurationTrends(history: RunHistory, limit: number = 10): DurationTrend[] {
+  const latestRun = history.runs.at(-1);
+  if (!latestRun) return [];
+
+  const earlierDurations = new Map<string, number[]>();
+  for (const run of history.runs.slice(0, -1)) {
+    for (const test of run.tests) {
+      if (test.outcome === 'skipped') continue;
+      const key = getTestKey(test);
+      earlierDurations.set(key, [...(earlierDurations.get(key) ?? []), test.duration]);
+    }
+  }
+
+  return latestRun.tests
+    .filter((test) => test.outcome !== 'skipped')
+    .map((test) => {
+      const key = getTestKey(test);
+      const durations = earlierDurations.get(key) ?? [];
+      const average = durations.length > 0 ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length) : null;
+      return { key, latest: test.duration, average, change: average === null ? null : test.duration - average };
+    })
+    .sort((a, b) => b.latest - a.latest)
+    .slice(0, limit);
+}
+
+/**
+ * Compares flakiness and duration across the third-party profiles tests ran with
+ * Skipped runs and runs without a recorded profile don't count
+ * @param history - The run history
+ * @returns One entry per profile, in alphabetical order
+ */
+export function compareThirdPartyProfiles(history: RunHistory): ThirdPartyImpact[] {
+  const impacts = new Map<string, ThirdPartyImpact & { totalDuration: number }>();
+
+  for (const run of history.runs) {
+    for (const test of run.tests) {
+      if (test.outcome === 'skipped' || !test.thirdParty) continue;
+      const impact = impacts.get(test.thirdParty) ?? {
+        profile: test.thirdParty,
+        runs: 0,
+        flaky: 0,
+        failed: 0,
+        flakinessRate: 0,
+        averageDuration: 0,
+        totalDuration: 0,
+      };
+      impact.runs += 1;
+      if (test.outcome === 'flaky') impact.flaky += 1;
+      if (test.outcome === 'unexpected') impact.failed += 1;
+      impact.totalDuration += test.duration;
+      impacts.set(test.thirdParty, impact);
+    }
+  }
+
+  return [...impacts.values()]
+    .map(({ totalDuration, ...impact }) => ({
+      ...impact,
+      flakinessRate: impact.flaky / impact.runs,
+      averageDuration: Math.round(totalDuration / impact.runs),
+    }))
+    .sort((a, b) => a.profile.localeCompare(b.profile));
+}
+
+/**
+ * Finds tests that failed in the latest run but passed the last time they ran
+ * Tests failing in their first recorded run count as newly failing too
+ * @param history - The run history
+ * @returns Test keys in the latest run's order
+ */
+export function findNewlyFailing(history: RunHistory): string[] {
+  const latestRun = history.runs.at(-1);
+  if (!latestRun) return [];
+
+  return latestRun.tests
+    .filter((test) => test.outcome === 'unexpected')
+    .map((test) => getTestKey(test))
+    .filter((key) => {
+      const previous = history.runs
+        .slice(0, -1)
+        .flatMap((run) => run.tests.filter((test) => test.outcome !== 'skipped' && getTestKey(test) === key))
+        .at(-1);
+      return !previous || previous.outcome !== 'unexpected';
+    });
+}
+
+/**
+ * Summarizes the latest run against the rest of the history
+ * @param history - The run history, including the latest run
+ * @throws Error when the history has no runs
+ */
+export function summarizeLatestRun(history: RunHistory): RunSummary {
+  const run = history.runs.at(-1);
+  if (!run) throw new Error('[RunHistory] The history has no runs to summarize');
+
+  const totals: Record<TestOutcome, number> = { expected: 0, unexpected: 0, flaky: 0, skipped: 0 };
+  for (const test of run.tests) totals[test.outcome] += 1;
+
+  return {
+    run,
+    totals,
+    status: totals.unexpected > 0 ? 'failed' : totals.flaky > 0 ? 'flaky' : 'passed',
+    newlyFailing: findNewlyFailing(history),
+    flakiest: computeFlakiness(history, 3).slice(0, 5),
+    slowest: computeDurationTrends(history, 5),
+  };
+}
+
+/**
+ * Formats a duration in ms as seconds with one decimal
+ */
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Builds the Slack incoming webhook payload for a run summary
+ * @param summary - The summary from summarizeLatestRun
+ * @param links - Where the run and its report can be viewed (CI only)
+ */
+export function buildSlackPayload(summary: RunSummary, links: { runUrl?: string; reportUrl?: string } = {}): object {
+  const { run, totals } = summary;
+  const statusEmoji = { passed: ':white_check_mark:', flaky: ':warning:', failed: ':x:' }[summary.status];
+  const color = { passed: 'good', flaky: 'warning', failed: 'danger' }[summary.status];
+  const total = totals.expected + totals.unexpected + totals.flaky + totals.skipped;
+  const bulletList = (lines: string[]) => (lines.length > 0 ? lines.map((line) => `• ${line}`).join('\n') : '_None_');
+
+  const blocks: object[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: `${statusEmoji} Playwright E2E Test Results`, emoji: true },
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*Status:*\n${statusEmoji} ${summary.status}` },
+        { type: 'mrkdwn', text: `*Branch:*\n${run.branch ?? 'local'}` },
+        { type: 'mrkdwn', text: `*Total Tests:*\n${total}` },
+        { type: 'mrkdwn', text: `*Duration:*\n${Math.floor(run.duration / 1000)}s` },
+      ],
+    },
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `:white_check_mark: *Passed:* ${totals.expected}` },
+        { type: 'mrkdwn', text: `:x: *Failed:* ${totals.unexpected}` },
+        { type: 'mrkdwn', text: `:warning: *Flaky:* ${totals.flaky}` },
+        { type: 'mrkdwn', text: `:fast_forward: *Skipped:* ${totals.skipped}` },
+      ],
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*Newly failing:*\n${bulletList(summary.newlyFailing)}` },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Flakiest tests:*\n${bulletList(
+          summary.flakiest.map((stat) => `${stat.key}: ${Math.round(stat.flakinessRate * 100)}% (${stat.flaky}/${stat.runs} runs)`)
+        )}`,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Slowest tests:*\n${bulletList(
+          summary.slowest.map(
+            (trend) =>
+              `${trend.key}: ${formatSeconds(trend.latest)}${trend.change === null ? '' : ` (${trend.change >= 0 ? '+' : '-'}${formatSeconds(Math.abs(trend.change))} vs average)`}`
+          )
+        )}`,
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Profile: ${run.profile}${run.themeId ? ` · Theme: ${run.themeId}` : ''}${run.commit ? ` · Commit: ${run.commit.slice(0, 7)}` : ''}` }],
+    },
+  ];
+
+  const buttons = [
+    links.runUrl && { type: 'button', text: { type: 'plain_text', text: ':github: View Run', emoji: true }, url: links.runUrl },
+    links.reportUrl && {
+      type: 'button',
+      text: { type: 'plain_text', text: ':page_facing_up: View Report', emoji: true },
+      url: links.reportUrl,
+    },
+  ].filter(Boolean);
+  if (buttons.length > 0) blocks.push({ type: 'actions', elements: buttons });
+
+  return { attachments: [{ color, blocks }] };
+}
+
+/**
+ * Formats the recorded runs of one test, one line per run and project
+ * @param history - The run history
+ * @param testId - The test plan ID (e.g. 'PN-09')
+ * @param project - Only show this project
+ */
+export function formatTestHistory(history: RunHistory, testId: string, project?: string): string {
+  const entries = history.runs.flatMap((run) =>
+    run.tests
+      .filter((test) => test.testId === testId && (!project || test.project === project))
+      .map((test) => ({ run, test }))
+  );
+  if (entries.length === 0) {
+    return `No recorded runs of ${testId}${project ? ` in ${project}` : ''} (${history.runs.length} run(s) in the history)`;
+  }
+
+  // One table per title: the same ID can be used in several describes (e.g. one per collection)
+  const lines: string[] = [];
+  for (const title of new Set(entries.map(({ test }) => test.title))) {
+    if (lines.length > 0) lines.push('');
+    lines.push(title, '');
+    lines.push(`${'Run'.padEnd(20)}  ${'Project'.padEnd(14)}  ${'Outcome'.padEnd(10)}  Retries  Duration`);
+    for (const { run, test } of entries.filter((entry) => entry.test.title === title)) {
+      lines.push(
+        `${run.startedAt.slice(0, 19).replace('T', ' ').padEnd(20)}  ${test.project.padEnd(14)}  ${test.outcome.padEnd(10)}  ${String(test.retries).padStart(7)}  ${formatSeconds(test.duration).padStart(8)}`
+      );
+    }
+  }
+
+  const keys = new Set(entries.map(({ test }) => getTestKey(test)));
+  const flakiness = computeFlakiness({ version: 1, runs: history.runs }).filter((stat) => keys.has(stat.key));
+  lines.push('');
+  lines.push(
+    flakiness.length > 0
+      ? flakiness.map((stat) => `Flaky in ${stat.key}: ${Math.round(stat.flakinessRate * 100)}% (${stat.flaky}/${stat.runs} runs)`).join('\n')
+      : 'Never flaky in the recorded runs'
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,50 @@
+/**
+ * Sort-order helpers for collection grids
+ *
+ * Shopify's alphabetical sort is case-insensitive and compares character by
+ * character, so '12 OZ FLT 70G/450' sorts before '8 OZ' and digits sort before letters.
+ */
+
+/**
+ * A pair of neighbouring items that are out of order
+ */
+export type OrderViolation<T> = {
+  index: number;
+  previous: T;
+  current: T;
+};
+
+/**
+ * Normalizes a product title the way the storefront compares it
+ * @param title - The product title as displayed
+ */
+export function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Compares two product titles in Shopify's alphabetical order
+ * @returns Negative when `a` sorts first, positive when `b` does, 0 when equal
+ */
+export function compareTitles(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Finds every neighbouring pair that breaks the expected order
+ * Equal keys may appear in any order
+ * @param items - Items in display order
+ * @param compare - Comparator for the expected order
+ * @returns The violations; empty when the items are sorted
+ */
+export function findOrderViolations<T>(items: T[], compare: (a: T, b: T) => number): OrderViolation<T>[] {
+  const violations: OrderViolation<T>[] = [];
+  for (let index = 1; index < items.length; index++) {
+    if (compare(items[index - 1], items[index]) > 0) {
+      violations.push({ index, previous: items[index - 1], current: items[index] });
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,111 @@
+/**
+ * Product specification parsing and diffing
+ *
+ * The Product Details accordion (`#Details---attributes`) lists attributes as
+ * `Label: Value`, either on one line or with the value on the next line. Labels
+ * are normalized to the camelCase keys used in test data ('Country of Origin' ->
+ * 'countryOfOrigin'), so a whole section can be compared with
+ * `TARGET_PRODUCT.specifications` in one go.
+ */
+
+/**
+ * Specifications keyed by normalized label
+ */
+export type SpecificationMap = Record<string, string>;
+
+/**
+ * One attribute that differs from the expected specifications
+ */
+export type SpecificationDifference = {
+  key: string;
+  kind: 'missing' | 'extra' | 'wrong';
+  expected?: string;
+  actual?: string;
+};
+
+/**
+ * Normalizes a specification label to a camelCase key
+ * Trailing colons and stray whitespace are ignored: 'Color ' and 'Color:' both become 'color'
+ * camelCase keys are returned unchanged
+ * @param label - The label as displayed (e.g. 'Country of Origin:')
+ */
+export function normalizeSpecificationKey(label: string): string {
+  const words = label
+    .replace(/:\s*$/, '')
+    // Keys that are already camelCase keep their word boundaries
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  return words.map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1))).join('');
+}
+
+/**
+ * Normalizes a specification value: whitespace runs collapse to one space
+ */
+export function normalizeSpecificationValue(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parses the text of a Product Details section into a specification map
+ * A label without a value on its line takes the next line as its value
+ * @param text - The section's innerText
+ */
+export function parseSpecifications(text: string): SpecificationMap {
+  const specifications: SpecificationMap = {};
+  const lines = text.split('\n').map(normalizeSpecificationValue).filter(Boolean);
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(/^([^:]+):\s*(.*)$/);
+    if (!match) continue;
+    let value = match[2];
+    if (!value && index + 1 < lines.length && !/^[^:]+:/.test(lines[index + 1])) {
+      value = lines[++index];
+    }
+    if (value) specifications[normalizeSpecificationKey(match[1])] = value;
+  }
+
+  return specifications;
+}
+
+/**
+ * Compares specifications with the expected values
+ * Expected keys may be labels or camelCase keys; values are compared after whitespace normalization
+ * @param actual - The specifications read from the page
+ * @param expected - The expected specifications (e.g. TARGET_PRODUCT.specifications)
+ * @returns Every missing, wrong and extra attribute, in expected order with extras last
+ */
+export function diffSpecifications(actual: SpecificationMap, expected: Record<string, string>): SpecificationDifference[] {
+  const differences: SpecificationDifference[] = [];
+  const expectedKeys = new Set<string>();
+
+  for (const [label, rawValue] of Object.entries(expected)) {
+    const key = normalizeSpecificationKey(label);
+    const value = normalizeSpecificationValue(rawValue);
+    expectedKeys.add(key);
+    if (!(key in actual)) differences.push({ key, kind: 'missing', expected: value });
+    else if (actual[key] !== value) differences.push({ key, kind: 'wrong', expected: value, actual: actual[key] });
+  }
+
+  for (const [key, value] of Object.entries(actual)) {
+    if (!expectedKeys.has(key)) differences.push({ key, kind: 'extra', actual: value });
+  }
+
+  return differences;
+}
+
+/**
+ * Formats specification differences as one readable diff
+ * @param differences - The differences from diffSpecifications
+ */
+export function formatSpecificationDiff(differences: SpecificationDifference[]): string {
+  if (differences.length === 0) return 'Specifications match';
+  return differences
+    .map((difference) => {
+      if (difference.kind === 'missing') return `- ${difference.key}: ${difference.expected} (missing)`;
+      if (difference.kind === 'extra') return `+ ${difference.key}: ${difference.actual} (not expected)`;
+      return `~ ${difference.key}: expected "${difference.expected}", got "${difference.actual}"`;
+    })
+    .join('\n');
+}
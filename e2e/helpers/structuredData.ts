@@ -0,0 +1,250 @@
+/**
+ * Structured data and SEO metadata
+ *
+ * Pages read their JSON-LD blocks and head metadata in the browser (see
+ * BasePage.getJsonLd and BasePage.getSeoMetadata); this module turns the raw
+ * values into typed Product, Offer and BreadcrumbList data and lists what is
+ * missing or wrong, so specs can compare it with the visible page.
+ */
+
+/**
+ * A JSON-LD node as found in the page, e.g. { '@type': 'Product', name: '...' }
+ */
+export type JsonLdNode = Record<string, unknown>;
+
+/**
+ * JSON-LD blocks of a page
+ */
+export type JsonLdDocument = {
+  nodes: JsonLdNode[];
+  // Blocks that are not valid JSON, with the parser error
+  errors: string[];
+};
+
+/**
+ * One offer of a Product node
+ */
+export type OfferData = {
+  sku: string | null;
+  price: number | null;
+  priceCurrency: string | null;
+  // Schema.org item availability without the prefix, e.g. 'InStock'
+  availability: string | null;
+  url: string | null;
+};
+
+/**
+ * A Product node with its offers
+ */
+export type ProductStructuredData = {
+  name: string | null;
+  sku: string | null;
+  url: string | null;
+  brand: string | null;
+  images: string[];
+  offers: OfferData[];
+};
+
+/**
+ * One entry of a BreadcrumbList node
+ */
+export type BreadcrumbItem = {
+  position: number;
+  name: string;
+  url: string | null;
+};
+
+/**
+ * SEO metadata from the page head
+ */
+export type SeoMetadata = {
+  title: string;
+  canonical: string | null;
+  description: string | null;
+  // Open Graph properties without the 'og:' prefix
+  openGraph: Record<string, string>;
+  hreflang: { lang: string; href: string }[];
+};
+
+/**
+ * Query parameters a canonical URL must never carry
+ */
+export const FORBIDDEN_CANONICAL_PARAMS = ['preview_theme_id', 'sort_by'];
+
+/**
+ * Open Graph properties every product and collection page should set
+ */
+export const REQUIRED_OPEN_GRAPH = ['title', 'type', 'url', 'image', 'description'];
+
+/**
+ * Parses the JSON-LD script blocks of a page
+ * Arrays and @graph containers are flattened into one list of nodes
+ * @param blocks - The text of every script[type="application/ld+json"]
+ */
+export function parseJsonLd(blocks: string[]): JsonLdDocument {
+  const document: JsonLdDocument = { nodes: [], errors: [] };
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') {
+      const node = value as JsonLdNode;
+      if (Array.isArray(node['@graph'])) collect(node['@graph']);
+      else document.nodes.push(node);
+    }
+  };
+
+  for (const [index, block] of blocks.entries()) {
+    try {
+      collect(JSON.parse(block));
+    } catch (error) {
+      document.errors.push(`Block ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return document;
+}
+
+/**
+ * Finds the nodes of one schema.org type
+ * @param document - The parsed JSON-LD
+ * @param type - The type, e.g. 'Product' or 'BreadcrumbList'
+ */
+export function findJsonLdNodes(document: JsonLdDocument, type: string): JsonLdNode[] {
+  return document.nodes.filter((node) => [node['@type']].flat().includes(type));
+}
+
+/**
+ * Reads a value as a trimmed string, or null when it is missing
+ */
+function text(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  return String(value).trim();
+}
+
+/**
+ * Reads a Product node and its offers
+ * @param node - A node of type Product
+ */
+export function readProductNode(node: JsonLdNode): ProductStructuredData {
+  const brand = node['brand'];
+  const images = [node['image']].flat().filter(Boolean).map((image) =>
+    typeof image === 'object' ? String((image as JsonLdNode)['url'] ?? '') : String(image)
+  );
+  const offers = [node['offers']].flat().filter((offer): offer is JsonLdNode => !!offer && typeof offer === 'object');
+
+  return {
+    name: text(node['name']),
+    sku: text(node['sku']),
+    url: text(node['url']),
+    brand: brand && typeof brand === 'object' ? text((brand as JsonLdNode)['name']) : text(brand),
+    images,
+    offers: offers.map((offer) => ({
+      sku: text(offer['sku']),
+      price: offer['price'] !== undefined ? parseFloat(String(offer['price'])) : null,
+      priceCurrency: text(offer['priceCurrency']),
+      availability: text(offer['availability'])?.replace(/^https?:\/\/schema\.org\//, '') ?? null,
+      url: text(offer['url']),
+    })),
+  };
+}
+
+/**
+ * Reads a BreadcrumbList node
+ * @param node - A node of type BreadcrumbList
+ * @returns The entries ordered by position
+ */
+export function readBreadcrumbNode(node: JsonLdNode): BreadcrumbItem[] {
+  const items = [node['itemListElement']].flat().filter((item): item is JsonLdNode => !!item && typeof item === 'object');
+  return items
+    .map((item) => {
+      const target = item['item'];
+      return {
+        position: Number(item['position']),
+        name: text(item['name']) ?? text((target as JsonLdNode | undefined)?.['name']) ?? '',
+        url: target && typeof target === 'object' ? text((target as JsonLdNode)['@id']) : text(target),
+      };
+    })
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Maps a schema.org availability to the stock status text shown on the page
+ * @param availability - e.g. 'InStock', 'OutOfStock'
+ * @returns 'In stock', 'Out of stock', or null for other values
+ */
+export function availabilityToStockStatus(availability: string | null): string | null {
+  if (availability === 'InStock' || availability === 'LimitedAvailability') return 'In stock';
+  if (availability === 'OutOfStock' || availability === 'SoldOut') return 'Out of stock';
+  return null;
+}
+
+/**
+ * Lists problems with a Product node: missing fields, offers without price or availability
+ * @param product - The product data from readProductNode
+ */
+export function validateProductData(product: ProductStructuredData): string[] {
+  const problems: string[] = [];
+  if (!product.name) problems.push('Product has no name');
+  if (!product.url) problems.push('Product has no url');
+  if (product.images.length === 0) problems.push('Product has no image');
+  if (product.offers.length === 0) problems.push('Product has no offers');
+
+  for (const [index, offer] of product.offers.entries()) {
+    const label = `Offer ${index + 1}${offer.sku ? ` (${offer.sku})` : ''}`;
+    if (offer.price === null || Number.isNaN(offer.price)) problems.push(`${label} has no price`);
+    if (!offer.priceCurrency) problems.push(`${label} has no priceCurrency`);
+    if (!availabilityToStockStatus(offer.availability)) {
+      problems.push(`${label} has an unknown availability: ${offer.availability ?? 'none'}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Lists problems with a breadcrumb trail: gaps in the positions or entries without a name or URL
+ * The last entry may omit its URL, since it is the current page
+ * @param items - The entries from readBreadcrumbNode
+ */
+export function validateBreadcrumbs(items: BreadcrumbItem[]): string[] {
+  const problems: string[] = [];
+  if (items.length === 0) problems.push('BreadcrumbList has no entries');
+
+  for (const [index, item] of items.entries()) {
+    if (item.position !== index + 1) problems.push(`Breadcrumb ${index + 1} has position ${item.position}`);
+    if (!item.name) problems.push(`Breadcrumb ${index + 1} has no name`);
+    if (!item.url && index < items.length - 1) problems.push(`Breadcrumb ${index + 1} (${item.name}) has no URL`);
+  }
+  return problems;
+}
+
+/**
+ * Lists problems with a page's SEO metadata
+ * @param metadata - The metadata from BasePage.getSeoMetadata
+ */
+export function validateSeoMetadata(metadata: SeoMetadata): string[] {
+  const problems: string[] = [];
+
+  if (!metadata.title) problems.push('The page has no <title>');
+  if (!metadata.description) problems.push('The page has no meta description');
+  if (!metadata.canonical) {
+    problems.push('The page has no canonical URL');
+  } else {
+    const canonical = new URL(metadata.canonical);
+    for (const param of FORBIDDEN_CANONICAL_PARAMS) {
+      if (canonical.searchParams.has(param)) problems.push(`The canonical URL contains ${param}: ${metadata.canonical}`);
+    }
+  }
+
+  for (const property of REQUIRED_OPEN_GRAPH) {
+    if (!metadata.openGraph[property]) problems.push(`The page has no og:${property}`);
+  }
+
+  for (const alternate of metadata.hreflang) {
+    if (!/^(x-default|[a-z]{2,3}(-[A-Za-z]{2,4})?)$/.test(alternate.lang)) {
+      problems.push(`hreflang "${alternate.lang}" is not a language code`);
+    }
+    if (!/^https:\/\//.test(alternate.href)) problems.push(`hreflang ${alternate.lang} points to ${alternate.href}`);
+  }
+  const languages = metadata.hreflang.map((alternate) => alternate.lang);
+  if (new Set(languages).size !== languages.length) problems.push(`hreflang repeats a language: ${languages.join(', ')}`);
+
+  return problems;
+}
@@ -0,0 +1,233 @@
+import { test } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NavigationNode } from '../pages/NavigationPage';
+
+/**
+ * Live vs preview theme comparison
+ *
+ * The comparison spec runs the same page-object journey once on the published
+ * theme and once on the preview theme, capturing a PageState per step. This module
+ * diffs the two sets of states and writes a report listing what the preview adds,
+ * removes or changes, grouped by page and section.
+ */
+
+/**
+ * Which theme a journey ran against
+ */
+export type ThemeSide = 'live' | 'preview';
+
+/**
+ * Structured state captured at one step of a journey
+ */
+export type PageState = {
+  // Journey step, used to pair live and preview states (e.g. 'collection: Glass Bottles & Jars')
+  name: string;
+  path: string;
+  headings: string[];
+  links: string[];
+  navigation?: NavigationNode[];
+  collection?: {
+    displayedCount: number;
+    // Product handles on the first page, in grid order
+    handles: string[];
+  };
+  product?: {
+    title: string;
+    specifications: string[];
+  };
+};
+
+/**
+ * One difference between the live and preview state of a page
+ */
+export type StateDifference = {
+  page: string;
+  section: string;
+  kind: 'added' | 'removed' | 'changed';
+  live?: string;
+  preview?: string;
+};
+
+/**
+ * Directory the comparison reports are written to
+ */
+export const THEME_COMPARISON_REPORT_DIR = path.resolve(__dirname, '../theme-comparison-report');
+
+/**
+ * Builds a store path that renders with a specific theme
+ * An empty preview_theme_id switches the session back to the published theme
+ * @param storePath - The store path (e.g. '/', '/collections/glass-bottles-jars-1')
+ * @param themeId - The preview theme ID, or null for the published theme
+ */
+export function themePath(storePath: string, themeId: string | null): string {
+  return `${storePath}${storePath.includes('?') ? '&' : '?'}preview_theme_id=${themeId ?? ''}`;
+}
+
+/**
+ * Flattens a navigation tree into one line per item, e.g. 'Products > Glass Bottles & Jars (/collections/...)'
+ * @param nodes - The navigation tree
+ * @param parents - Labels of the enclosing menu items
+ */
+export function flattenNavigation(nodes: NavigationNode[], parents: string[] = []): string[] {
+  return nodes.flatMap((node) => {
+    const trail = [...parents, node.label];
+    const line = `${trail.join(' > ')}${node.href ? ` (${node.href})` : ''}`;
+    return [line, ...flattenNavigation(node.children, trail)];
+  });
+}
+
+/**
+ * Compares two lists as multisets and reports the entries only one side has
+ */
+function diffLists(page: string, section: string, live: string[], preview: string[]): StateDifference[] {
+  const remaining = [...preview];
+  const removed: string[] = [];
+  for (const entry of live) {
+    const index = remaining.indexOf(entry);
+    if (index === -1) removed.push(entry);
+    else remaining.splice(index, 1);
+  }
+
+  const differences: StateDifference[] = [
+    ...removed.map((entry) => ({ page, section, kind: 'removed' as const, live: entry })),
+    ...remaining.map((entry) => ({ page, section, kind: 'added' as const, preview: entry })),
+  ];
+  // Same entries in a different order
+  if (differences.length === 0 && live.join('\n') !== preview.join('\n')) {
+    differences.push({ page, section: `${section} order`, kind: 'changed', live: live.join(', '), preview: preview.join(', ') });
+  }
+  return differences;
+}
+
+/**
+ * Reports a single value that differs between the themes
+ */
+function diffValue(page: string, section: string, live: unknown, preview: unknown): StateDifference[] {
+  if (String(live) === String(preview)) return [];
+  return [{ page, section, kind: 'changed', live: String(live), preview: String(preview) }];
+}
+
+/**
+ * Compares the live and preview states of every journey step
+ * @param live - States captured on the published theme
+ * @param preview - States captured on the preview theme
+ * @returns Every difference, in journey order
+ */
+export function diffPageStates(live: PageState[], preview: PageState[]): StateDifference[] {
+  const differences: StateDifference[] = [];
+
+  for (const liveState of live) {
+    const previewState = preview.find((state) => state.name === liveState.name);
+    const page = liveState.name;
+    if (!previewState) {
+      differences.push({ page, section: 'page', kind: 'removed', live: liveState.path });
+      continue;
+    }
+
+    differences.push(...diffValue(page, 'path', liveState.path, previewState.path));
+    differences.push(
+      ...diffLists(
+        page,
+        'navigation',
+        flattenNavigation(liveState.navigation ?? []),
+        flattenNavigation(previewState.navigation ?? [])
+      )
+    );
+    differences.push(...diffLists(page, 'headings', liveState.headings, previewState.headings));
+    differences.push(...diffLists(page, 'links', liveState.links, previewState.links));
+
+    if (liveState.collection || previewState.collection) {
+      differences.push(
+        ...diffValue(page, 'product count', liveState.collection?.displayedCount, previewState.collection?.displayedCount)
+      );
+      differences.push(
+        ...diffLists(page, 'products', liveState.collection?.handles ?? [], previewState.collection?.handles ?? [])
+      );
+    }
+
+    if (liveState.product || previewState.product) {
+      differences.push(...diffValue(page, 'product title', liveState.product?.title, previewState.product?.title));
+      differences.push(
+        ...diffLists(
+          page,
+          'specifications',
+          liveState.product?.specifications ?? [],
+          previewState.product?.specifications ?? []
+        )
+      );
+    }
+  }
+
+  for (const previewState of preview) {
+    if (!live.some((state) => state.name === previewState.name)) {
+      differences.push({ page: previewState.name, section: 'page', kind: 'added', preview: previewState.path });
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Formats differences as a readable report grouped by page and section
+ * `-` lines exist only on the live theme, `+` lines only on the preview theme
+ * @param differences - The differences from diffPageStates
+ * @param themeId - The preview theme ID, shown in the header
+ */
+export function formatComparisonReport(differences: StateDifference[], themeId: string): string {
+  const lines = [
+    `Theme comparison: published theme (-) vs preview theme ${themeId} (+)`,
+    differences.length === 0 ? 'No differences' : `${differences.length} difference(s)`,
+  ];
+
+  let currentPage = '';
+  let currentSection = '';
+  for (const difference of differences) {
+    if (difference.page !== currentPage) {
+      lines.push('', `== ${difference.page}`);
+      currentPage = difference.page;
+      currentSection = '';
+    }
+    if (difference.section !== currentSection) {
+      lines.push(`  ${difference.section}`);
+      currentSection = difference.section;
+    }
+    if (difference.live !== undefined) lines.push(`    - ${difference.live}`);
+    if (difference.preview !== undefined) lines.push(`    + ${difference.preview}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Records a comparison: attaches the report and both state sets to the test
+ * and writes them to the theme comparison report directory
+ * @param live - States captured on the published theme
+ * @param preview - States captured on the preview theme
+ * @param themeId - The preview theme ID
+ * @returns The differences found
+ */
+export async function recordThemeComparison(
+  live: PageState[],
+  preview: PageState[],
+  themeId: string
+): Promise<StateDifference[]> {
+  const testInfo = test.info();
+  const differences = diffPageStates(live, preview);
+  const report = formatComparisonReport(differences, themeId);
+  const states = JSON.stringify({ themeId, live, preview, differences }, null, 2);
+
+  await testInfo.attach('theme-comparison', { body: report, contentType: 'text/plain' });
+  await testInfo.attach('theme-comparison.json', { body: states, contentType: 'application/json' });
+
+  const reportName = `${testInfo.titlePath.slice(1).join(' ').replace(/[^A-Za-z0-9]+/g, '-')}-${testInfo.project.name}`;
+  fs.mkdirSync(THEME_COMPARISON_REPORT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(THEME_COMPARISON_REPORT_DIR, `${reportName}.txt`), report + '\n');
+  fs.writeFileSync(path.join(THEME_COMPARISON_REPORT_DIR, `${reportName}.json`), states);
+
+  testInfo.annotations.push({
+    type: 'theme-differences',
+    description: `${differences.length} difference(s) between the published theme and preview theme ${themeId}`,
+  });
+  return differences;
+}
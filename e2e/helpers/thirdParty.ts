@@ -0,0 +1,171 @@
+import type { BrowserContext, Request, Route } from '@playwright/test';
+import { isFirstPartyUrl } from './pageErrors';
+
+/**
+ * Third-party request blocking and stubbing
+ *
+ * Analytics, chat widgets, review apps and pixels slow every navigation down and
+ * keep the network busy long after the page is usable. A third-party profile
+ * decides what happens to requests that leave the store and its CDN:
+ *
+ * - 'allow' lets them through (the live storefront as customers see it)
+ * - 'block' aborts them
+ * - 'stub' answers them with the canned responses in data/thirdPartyStubs.ts,
+ *   or an empty response of the right type, so scripts that expect a
+ *   global (e.g. `fbq`) keep working
+ *
+ * Every third-party request is recorded with what was done to it, so runs with
+ * different profiles can be compared in the run history.
+ */
+
+export type ThirdPartyProfile = 'allow' | 'block' | 'stub';
+
+/**
+ * A canned response for third-party URLs matching pattern
+ */
+export type ThirdPartyStub = {
+  name: string;
+  pattern: RegExp;
+  status?: number;
+  contentType: string;
+  body: string;
+};
+
+/**
+ * One third-party request and what the profile did with it
+ */
+export type ThirdPartyRequest = {
+  url: string;
+  host: string;
+  resourceType: string;
+  action: 'allowed' | 'blocked' | 'stubbed';
+};
+
+/**
+ * Third-party requests of one host, counted per action
+ */
+export type ThirdPartyHostSummary = {
+  host: string;
+  allowed: number;
+  blocked: number;
+  stubbed: number;
+};
+
+/**
+ * Options for routing third-party requests
+ */
+export type ThirdPartyOptions = {
+  // Canned responses, first match wins
+  stubs: ThirdPartyStub[];
+  // Third-party URLs that every profile lets through (e.g. theme fonts)
+  alwaysAllowed: RegExp[];
+};
+
+/**
+ * Empty responses by resource type for stubbed requests without a canned response
+ */
+const EMPTY_RESPONSES: Record<string, { status: number; contentType: string; body: string }> = {
+  script: { status: 200, contentType: 'application/javascript', body: '' },
+  stylesheet: { status: 200, contentType: 'text/css', body: '' },
+  document: { status: 200, contentType: 'text/html', body: '<!doctype html><html><body></body></html>' },
+  fetch: { status: 200, contentType: 'application/json', body: '{}' },
+  xhr: { status: 200, contentType: 'application/json', body: '{}' },
+};
+
+/**
+ * Checks whether a request leaves the store and its CDN
+ * data: and blob: URLs never leave the browser and are not third-party
+ * @param url - The request URL
+ */
+export function isThirdPartyUrl(url: string): boolean {
+  return /^https?:/.test(url) && !isFirstPartyUrl(url);
+}
+
+/**
+ * Finds the canned response for a third-party URL
+ * @param url - The request URL
+ * @param stubs - The canned responses
+ * @returns The first matching stub, or undefined when the URL gets an empty response
+ */
+export function findThirdPartyStub(url: string, stubs: ThirdPartyStub[]): ThirdPartyStub | undefined {
+  return stubs.find((stub) => stub.pattern.test(url));
+}
+
+/**
+ * Counts third-party requests per host, busiest host first
+ * @param requests - The recorded requests
+ */
+export function summarizeThirdPartyRequests(requests: ThirdPartyRequest[]): ThirdPartyHostSummary[] {
+  const hosts = new Map<string, ThirdPartyHostSummary>();
+  for (const request of requests) {
+    const summary = hosts.get(request.host) ?? { host: request.host, allowed: 0, blocked: 0, stubbed: 0 };
+    summary[request.action] += 1;
+    hosts.set(request.host, summary);
+  }
+  const total = (summary: ThirdPartyHostSummary) => summary.allowed + summary.blocked + summary.stubbed;
+  return [...hosts.values()].sort((a, b) => total(b) - total(a) || a.host.localeCompare(b.host));
+}
+
+/**
+ * Formats the third-party requests of a test as a plain-text table for the HTML report
+ * @param profile - The profile the test ran with
+ * @param requests - The recorded requests
+ */
+export function formatThirdPartyReport(profile: ThirdPartyProfile, requests: ThirdPartyRequest[]): string {
+  const rows = summarizeThirdPartyRequests(requests).map(
+    (summary) =>
+      `${summary.host.padEnd(40)}${String(summary.allowed).padStart(9)}${String(summary.blocked).padStart(9)}${String(summary.stubbed).padStart(9)}`
+  );
+  return [
+    `Profile: ${profile}, ${requests.length} third-party request(s)`,
+    `${'host'.padEnd(40)}${'allowed'.padStart(9)}${'blocked'.padStart(9)}${'stubbed'.padStart(9)}`,
+    ...rows,
+  ].join('\n');
+}
+
+/**
+ * Applies a third-party profile to a browser context
+ * Only third-party URLs that the profile blocks or stubs are routed; everything else never
+ * reaches the handler and keeps the routes registered before (e.g. the recording HAR)
+ * @param context - The test's browser context
+ * @param profile - What to do with third-party requests
+ * @param options - Canned responses and URLs that are always allowed
+ * @returns The list that collects third-party requests while the test runs
+ */
+export async function routeThirdPartyRequests(
+  context: BrowserContext,
+  profile: ThirdPartyProfile,
+  options: ThirdPartyOptions
+): Promise<ThirdPartyRequest[]> {
+  const requests: ThirdPartyRequest[] = [];
+  const record = (request: Request, action: ThirdPartyRequest['action']) => {
+    requests.push({ url: request.url(), host: new URL(request.url()).host, resourceType: request.resourceType(), action });
+  };
+
+  const isAllowed = (url: string) =>
+    profile === 'allow' || options.alwaysAllowed.some((pattern) => pattern.test(url));
+
+  // Allowed and first-party requests aren't routed, so the browser cache keeps working for them
+  context.on('request', (request) => {
+    if (isThirdPartyUrl(request.url()) && isAllowed(request.url())) record(request, 'allowed');
+  });
+  if (profile === 'allow') {
+    return requests;
+  }
+
+  await context.route((url) => isThirdPartyUrl(url.href) && !isAllowed(url.href), async (route: Route) => {
+    const request = route.request();
+    if (profile === 'block') {
+      record(request, 'blocked');
+      await route.abort('blockedbyclient');
+      return;
+    }
+
+    record(request, 'stubbed');
+    const stub = findThirdPartyStub(request.url(), options.stubs);
+    const response = stub ?? EMPTY_RESPONSES[request.resourceType()] ?? { status: 204, contentType: 'text/plain', body: '' };
+    await route.fulfill({ status: response.status ?? 200, contentType: response.contentType, body: response.body });
+  });
+
+  return requests;
+}
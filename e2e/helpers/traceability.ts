@@ -0,0 +1,387 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Test plan to spec traceability
+ *
+ * Test plans in `testplan/` list cases by ID with numbered steps and expected
+ * results. A spec names its plan in a header comment (`// Test plan: <path>`).
+ * This module parses both sides and reports planned cases without a test, tests
+ * without a planned case, and `test.step` names that differ from the planned steps.
+ *
+ * Test data in a plan is written as a brace placeholder matching the spec's
+ * template literal: plan step `Click "{collection.name}" link` matches
+ * test.step(`Click "${collection.name}" link`).
+ */
+
+/**
+ * One case of a test plan
+ */
+export type PlannedCase = {
+  id: string;
+  title: string;
+  steps: string[];
+  expectedResults: string[];
+};
+
+/**
+ * A parsed test plan file
+ */
+export type TestPlan = {
+  // Path relative to the repository root, as written in spec headers
+  file: string;
+  title: string;
+  cases: PlannedCase[];
+};
+
+/**
+ * One test of a spec file with its test.step names
+ */
+export type ImplementedCase = {
+  id: string;
+  title: string;
+  steps: string[];
+  line: number;
+};
+
+/**
+ * A parsed spec file
+ */
+export type SpecFile = {
+  // Path relative to the repository root
+  file: string;
+  // The plan named in the spec's header comment, or null without one
+  plan: string | null;
+  cases: ImplementedCase[];
+};
+
+/**
+ * Steps of an implemented case that differ from its plan
+ */
+export type StepMismatch = {
+  id: string;
+  spec: string;
+  line: number;
+  // Planned steps without a matching test.step
+  missing: string[];
+  // test.step names the plan doesn't list
+  unplanned: string[];
+};
+
+/**
+ * Coverage status of one case ID
+ */
+export type CoverageStatus = 'covered' | 'steps differ' | 'not implemented' | 'not planned' | 'no plan';
+
+/**
+ * One row of the coverage matrix
+ */
+export type CoverageRow = {
+  id: string;
+  title: string;
+  plan: string | null;
+  specs: string[];
+  plannedSteps: number;
+  implementedSteps: number;
+  status: CoverageStatus;
+};
+
+/**
+ * Result of comparing the test plans with the specs
+ */
+export type TraceabilityReport = {
+  // Planned cases no spec implements
+  missing: { plan: string; case: PlannedCase }[];
+  // Cases of plan-linked specs that their plan doesn't list
+  unplanned: { spec: string; case: ImplementedCase }[];
+  stepMismatches: StepMismatch[];
+  // Specs naming a plan file that doesn't exist
+  missingPlans: { spec: string; plan: string }[];
+  matrix: CoverageRow[];
+};
+
+/**
+ * Repository root, which plan and spec paths are relative to
+ */
+const REPO_ROOT = path.resolve(__dirname, '../..');
+
+/**
+ * Directory holding the test plans
+ */
+export const TESTPLAN_DIR = path.resolve(__dirname, '../testplan');
+
+/**
+ * Directory holding the specs
+ */
+export const SPECS_DIR = path.resolve(__dirname, '../tests');
+
+const CASE_ID = /^([A-Z]{2,3}-\d+)\b/;
+
+/**
+ * Normalizes a title or step for comparison: case, whitespace and inline code marks are ignored
+ */
+function normalize(text: string): string {
+  return text.replace(/`/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Parses a test plan
+ * Cases are `### <ID>: <title>` headings followed by a numbered **Steps:** list
+ * and a bulleted **Expected Results:** list
+ * @param markdown - The plan contents
+ * @param file - The plan path relative to the repository root
+ */
+export function parseTestPlan(markdown: string, file: string): TestPlan {
+  const plan: TestPlan = { file, title: markdown.match(/^#\s+(.+)$/m)?.[1].trim() ?? file, cases: [] };
+  let current: PlannedCase | null = null;
+  let list: 'steps' | 'expectedResults' | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{2,}\s+(.+)$/);
+    if (heading) {
+      const id = heading[1].match(CASE_ID)?.[1];
+      current = id ? { id, title: heading[1].trim(), steps: [], expectedResults: [] } : null;
+      if (current) plan.cases.push(current);
+      list = null;
+      continue;
+    }
+    if (!current) continue;
+
+    if (/^\*\*Steps:?\*\*:?/i.test(line)) list = 'steps';
+    else if (/^\*\*Expected Results?:?\*\*:?/i.test(line)) list = 'expectedResults';
+    else if (list === 'steps' && /^\s*\d+\.\s+/.test(line)) current.steps.push(line.replace(/^\s*\d+\.\s+/, '').trim());
+    else if (list === 'expectedResults' && /^\s*[-*]\s+/.test(line)) {
+      current.expectedResults.push(line.replace(/^\s*[-*]\s+/, '').trim());
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Turns a string literal from spec source into plan notation: `${expr}` becomes `{expr}`
+ */
+function readLiteral(body: string): string {
+  return body.replace(/\$\{\s*([^}]+?)\s*\}/g, '{$1}').replace(/\\(['"`\\])/g, '$1');
+}
+
+/**
+ * Parses the tests and test.step names of a spec from its source
+ * Steps belong to the nearest test above them; tests without a case ID are ignored
+ * @param source - The spec source
+ * @param file - The spec path relative to the repository root
+ */
+export function parseSpecFile(source: string, file: string): SpecFile {
+  const spec: SpecFile = {
+    file,
+    plan: source.match(/^\/\/\s*Test plan:\s*(\S+)/m)?.[1] ?? null,
+    cases: [],
+  };
+  const calls = /\btest(\.step|\.only|\.fixme|\.fail|\.slow)?\(\s*(['"`])((?:\\.|(?!\2)[^\\])*)\2/g;
+  let current: ImplementedCase | null = null;
+
+  for (const match of source.matchAll(calls)) {
+    const text = readLiteral(match[3]);
+    if (match[1] === '.step') {
+      current?.steps.push(text);
+      continue;
+    }
+    const id = text.match(CASE_ID)?.[1];
+    current = id ? { id, title: text, steps: [], line: source.slice(0, match.index).split('\n').length } : null;
+    if (current) spec.cases.push(current);
+  }
+
+  return spec;
+}
+
+/**
+ * Lists planned steps without a matching test.step and test.step names the plan doesn't list
+ */
+function diffSteps(planned: string[], implemented: string[]): { missing: string[]; unplanned: string[] } {
+  const plannedKeys = planned.map(normalize);
+  const implementedKeys = implemented.map(normalize);
+  return {
+    missing: planned.filter((_, index) => !implementedKeys.includes(plannedKeys[index])),
+    unplanned: implemented.filter((_, index) => !plannedKeys.includes(implementedKeys[index])),
+  };
+}
+
+/**
+ * Compares test plans with specs
+ * Specs are matched to the plan named in their header; specs without one only appear in the matrix
+ * @param plans - The parsed test plans
+ * @param specs - The parsed spec files
+ */
+export function checkTraceability(plans: TestPlan[], specs: SpecFile[]): TraceabilityReport {
+  const report: TraceabilityReport = { missing: [], unplanned: [], stepMismatches: [], missingPlans: [], matrix: [] };
+
+  for (const spec of specs) {
+    if (spec.plan && !plans.some((plan) => plan.file === spec.plan)) {
+      report.missingPlans.push({ spec: spec.file, plan: spec.plan });
+    }
+  }
+
+  for (const plan of plans) {
+    const linkedSpecs = specs.filter((spec) => spec.plan === plan.file);
+
+    for (const planned of plan.cases) {
+      const implementations = linkedSpecs.flatMap((spec) =>
+        spec.cases.filter((implemented) => implemented.id === planned.id).map((implemented) => ({ spec, implemented }))
+      );
+      if (implementations.length === 0) report.missing.push({ plan: plan.file, case: planned });
+
+      let stepsDiffer = false;
+      for (const { spec, implemented } of implementations) {
+        const { missing, unplanned } = diffSteps(planned.steps, implemented.steps);
+        if (missing.length > 0 || unplanned.length > 0) {
+          stepsDiffer = true;
+          report.stepMismatches.push({ id: planned.id, spec: spec.file, line: implemented.line, missing, unplanned });
+        }
+      }
+
+      report.matrix.push({
+        id: planned.id,
+        title: planned.title,
+        plan: plan.file,
+        specs: [...new Set(implementations.map(({ spec }) => spec.file))],
+        plannedSteps: planned.steps.length,
+        implementedSteps: implementations[0]?.implemented.steps.length ?? 0,
+        status: implementations.length === 0 ? 'not implemented' : stepsDiffer ? 'steps differ' : 'covered',
+      });
+    }
+  }
+
+  for (const spec of specs) {
+    const plan = plans.find((candidate) => candidate.file === spec.plan);
+    for (const implemented of spec.cases) {
+      if (plan?.cases.some((planned) => planned.id === implemented.id)) continue;
+      if (spec.plan) report.unplanned.push({ spec: spec.file, case: implemented });
+
+      // Cases from loops are parsed once, but the same ID may still appear in several specs
+      const row = report.matrix.find((existing) => existing.id === implemented.id && existing.plan === null);
+      if (row) {
+        row.specs = [...new Set([...row.specs, spec.file])];
+        continue;
+      }
+      report.matrix.push({
+        id: implemented.id,
+        title: implemented.title,
+        plan: null,
+        specs: [spec.file],
+        plannedSteps: 0,
+        implementedSteps: implemented.steps.length,
+        status: spec.plan ? 'not planned' : 'no plan',
+      });
+    }
+  }
+
+  report.matrix.sort((a, b) => a.id.localeCompare(b.id, 'en', { numeric: true }));
+  return report;
+}
+
+/**
+ * Whether the report has gaps between plans and specs
+ * Specs without a plan are not gaps
+ */
+export function hasTraceabilityGaps(report: TraceabilityReport): boolean {
+  return (
+    report.missing.length > 0 ||
+    report.unplanned.length > 0 ||
+    report.stepMismatches.length > 0 ||
+    report.missingPlans.length > 0
+  );
+}
+
+/**
+ * Reads every test plan and spec in the repository
+ * @param testplanDir - Directory holding the e2e-*-test-plan.md files
+ * @param specsDir - Directory searched for *.spec.ts files, except tools/
+ */
+export function loadTraceabilitySources(
+  testplanDir: string = TESTPLAN_DIR,
+  specsDir: string = SPECS_DIR
+): { plans: TestPlan[]; specs: SpecFile[] } {
+  const relative = (file: string) => path.relative(REPO_ROOT, file).split(path.sep).join('/');
+  const planFiles = fs.existsSync(testplanDir)
+    ? fs.readdirSync(testplanDir).filter((name) => /^e2e-.+-test-plan\.md$/.test(name)).sort()
+    : [];
+  // Tools specs test the suite's own helpers and have no test plan
+  const specFiles = (fs.readdirSync(specsDir, { recursive: true }) as string[])
+    .filter((name) => name.endsWith('.spec.ts') && !name.split(path.sep).includes('tools'))
+    .sort();
+
+  return {
+    plans: planFiles.map((name) => {
+      const file = path.join(testplanDir, name);
+      return parseTestPlan(fs.readFileSync(file, 'utf-8'), relative(file));
+    }),
+    specs: specFiles.map((name) => {
+      const file = path.join(specsDir, name);
+      return parseSpecFile(fs.readFileSync(file, 'utf-8'), relative(file));
+    }),
+  };
+}
+
+/**
+ * Formats the gaps of a report, one line per problem
+ * @param report - The report from checkTraceability
+ */
+export function formatTraceabilityReport(report: TraceabilityReport): string {
+  const covered = report.matrix.filter((row) => row.status === 'covered').length;
+  const planned = report.matrix.filter((row) => row.plan !== null).length;
+  const lines = [`Traceability: ${covered} of ${planned} planned case(s) covered`];
+
+  for (const { spec, plan } of report.missingPlans) lines.push(`  Missing plan: ${spec} names ${plan}, which doesn't exist`);
+  for (const { plan, case: planned } of report.missing) lines.push(`  Not implemented: ${planned.title} (${plan})`);
+  for (const { spec, case: implemented } of report.unplanned) {
+    lines.push(`  Not planned: ${implemented.title} (${spec}:${implemented.line})`);
+  }
+  for (const mismatch of report.stepMismatches) {
+    lines.push(`  Steps differ: ${mismatch.id} (${mismatch.spec}:${mismatch.line})`);
+    for (const step of mismatch.missing) lines.push(`    - planned: ${step}`);
+    for (const step of mismatch.unplanned) lines.push(`    + test.step: ${step}`);
+  }
+  if (!hasTraceabilityGaps(report)) lines.push('  No gaps');
+
+  return lines.join('\n');
+}
+
+/**
+ * Escapes text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
+
+/**
+ * Renders the coverage matrix as a standalone HTML page for the HTML report
+ * @param report - The report from checkTraceability
+ */
+export function renderCoverageMatrix(report: TraceabilityReport): string {
+  const colors: Record<CoverageStatus, string> = {
+    covered: '#d4edda',
+    'steps differ': '#fff3cd',
+    'not implemented': '#f8d7da',
+    'not planned': '#f8d7da',
+    'no plan': '#e2e3e5',
+  };
+  const rows = report.matrix.map(
+    (row) =>
+      `<tr style="background:${colors[row.status]}"><td>${escapeHtml(row.id)}</td><td>${escapeHtml(row.title)}</td>` +
+      `<td>${row.plan ? escapeHtml(row.plan) : '&mdash;'}</td><td>${row.specs.map(escapeHtml).join('<br>') || '&mdash;'}</td>` +
+      `<td>${row.implementedSteps}/${row.plannedSteps}</td><td>${row.status}</td></tr>`
+  );
+
+  return [
+    '<!doctype html>',
+    '<meta charset="utf-8">',
+    '<title>Test plan coverage matrix</title>',
+    '<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top}</style>',
+    `<h1>Test plan coverage matrix</h1>`,
+    `<pre>${escapeHtml(formatTraceabilityReport(report))}</pre>`,
+    '<table>',
+    '<tr><th>ID</th><th>Title</th><th>Plan</th><th>Specs</th><th>Steps (spec/plan)</th><th>Status</th></tr>',
+    ...rows,
+    '</table>',
+  ].join('\n');
+}
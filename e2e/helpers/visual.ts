@@ -0,0 +1,35 @@
+import type { Page, Locator } from '@playwright/test';
+
+/**
+ * Visual regression helpers
+ *
+ * Screenshots compare layout, not catalog data, so regions whose content changes
+ * between runs (prices, stock, the branch popup, recommendations) are masked.
+ */
+
+/**
+ * Tags used to select a single template when updating baselines
+ */
+export const VISUAL_TAGS = {
+  homeHeader: '@visual-home-header',
+  megaMenu: '@visual-mega-menu',
+  mobileMenu: '@visual-mobile-menu',
+  collectionGrid: '@visual-collection-grid',
+  productPage: '@visual-product-page',
+};
+
+/**
+ * Gets locators for regions whose content changes between runs
+ * @param page - The page being captured
+ * @returns Locators to pass as the `mask` screenshot option
+ */
+export function getDynamicRegionMasks(page: Page): Locator[] {
+  return [
+    page.locator('.price'),
+    page.locator('text=/In stock|Out of stock/'),
+    page.getByRole('dialog').filter({
+      has: page.getByRole('heading', { name: 'Select Your Richards Branch', level: 2 }),
+    }),
+    page.locator('product-recommendations, .complementary-products'),
+  ];
+}
@@ -1,5 +1,36 @@
 import { type Page, type Locator, expect } from '@playwright/test';
-import { TEST_URL } from '../helpers/constant';
+import { config } from '../helpers/config';
+import {
+  type AccessibilityScanResult,
+  formatViolations,
+  recordAccessibilityScan,
+  runAccessibilityScan,
+} from '../helpers/accessibility';
+import { flushPerformanceMetrics } from '../helpers/performance';
+import {
+  type Breakpoint,
+  type ThemeBreakpoints,
+  getBreakpointForWidth,
+  readThemeBreakpoints,
+} from '../helpers/breakpoints';
+import {
+  type BreadcrumbItem,
+  type JsonLdDocument,
+  type SeoMetadata,
+  findJsonLdNodes,
+  parseJsonLd,
+  readBreadcrumbNode,
+} from '../helpers/structuredData';
+
+/**
+ * Headings and links of a page's main content, as readable lines
+ */
+export type PageOutline = {
+  // e.g. 'h2 Glass Bottles & Jars'
+  headings: string[];
+  // e.g. 'Shop now -> /collections/glass-bottles-jars-1'
+  links: string[];
+};
 
 /**
  * Base Page class that all Page Objects should extend.
@@ -7,6 +38,7 @@ import { TEST_URL } from '../helpers/constant';
  */
 export class BasePage {
   readonly page: Page;
+  private themeBreakpoints: ThemeBreakpoints | undefined;
 
   constructor(page: Page) {
     this.page = page;
@@ -18,7 +50,7 @@ export class BasePage {
    * @returns The complete URL string
    */
   protected getUrl(path: string): string {
-    const url = new URL(path, TEST_URL);
+    const url = new URL(path, config.storeUrl);
     console.log(url.toString())
     return url.toString();
   }
@@ -29,9 +61,31 @@ export class BasePage {
    * @param options - Navigation options
    */
   async goto(path: string) {
+    // Report the page being left before its metrics are lost
+    await flushPerformanceMetrics(this.page);
     await this.page.goto(this.getUrl(path));
   }
 
+  /**
+   * Reads the headings and links of the main content
+   * Link targets are reduced to the path so theme preview parameters don't show up as changes
+   * @returns The page outline in document order
+   */
+  async getPageOutline(): Promise<PageOutline> {
+    return this.page.locator('main').first().evaluate((main) => {
+      const clean = (text: string | null) => (text ?? '').replace(/\s+/g, ' ').trim();
+      const headings = [...main.querySelectorAll('h1, h2, h3')].map(
+        (heading) => `${heading.tagName.toLowerCase()} ${clean(heading.textContent)}`
+      );
+      const links = [...main.querySelectorAll<HTMLAnchorElement>('a[href]')].map((link) => {
+        const url = new URL(link.href);
+        const target = url.origin === location.origin ? url.pathname : `${url.origin}${url.pathname}`;
+        return `${clean(link.textContent) || clean(link.getAttribute('aria-label'))} -> ${target}`;
+      });
+      return { headings, links };
+    });
+  }
+
   /**
    * Waits for a specific network request to complete
    * @param urlPattern - URL pattern to match
@@ -56,6 +110,51 @@ export class BasePage {
     });
   }
 
+  /**
+   * Reads every JSON-LD block of the page
+   * @returns The JSON-LD nodes, with parse errors for invalid blocks
+   */
+  async getJsonLd(): Promise<JsonLdDocument> {
+    const blocks = await this.page
+      .locator('script[type="application/ld+json"]')
+      .evaluateAll((scripts) => scripts.map((script) => script.textContent ?? ''));
+    return parseJsonLd(blocks);
+  }
+
+  /**
+   * Reads the BreadcrumbList from the page's JSON-LD
+   * @returns The breadcrumb entries, or null when the page has no BreadcrumbList
+   */
+  async getBreadcrumbs(): Promise<BreadcrumbItem[] | null> {
+    const [node] = findJsonLdNodes(await this.getJsonLd(), 'BreadcrumbList');
+    return node ? readBreadcrumbNode(node) : null;
+  }
+
+  /**
+   * Reads the title, canonical URL, meta description, Open Graph tags and hreflang alternates
+   */
+  async getSeoMetadata(): Promise<SeoMetadata> {
+    return this.page.evaluate(() => {
+      const content = (selector: string) => document.head.querySelector(selector)?.getAttribute('content')?.trim() || null;
+      const openGraph: Record<string, string> = {};
+      for (const meta of document.head.querySelectorAll('meta[property^="og:"]')) {
+        const property = meta.getAttribute('property')!.slice(3);
+        // Keep the first value of repeated properties such as og:image
+        openGraph[property] ??= meta.getAttribute('content') ?? '';
+      }
+      return {
+        title: document.title.trim(),
+        canonical: document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href ?? null,
+        description: content('meta[name="description"]'),
+        openGraph,
+        hreflang: [...document.head.querySelectorAll<HTMLLinkElement>('link[rel="alternate"][hreflang]')].map((link) => ({
+          lang: link.hreflang,
+          href: link.href,
+        })),
+      };
+    });
+  }
+
   /**
    * Gets the current viewport size
    */
@@ -64,20 +163,70 @@ export class BasePage {
   }
 
   /**
-   * Checks if the current viewport is mobile-sized
+   * Reads the theme's tablet and desktop breakpoints from its stylesheets
+   * Read once per page object; the current page must be a storefront page
    */
-  async isMobileViewport(): Promise<boolean> {
-    return await this.page.evaluate(() => window.innerWidth < 768);
+  async getThemeBreakpoints(): Promise<ThemeBreakpoints> {
+    this.themeBreakpoints ??= await readThemeBreakpoints(this.page);
+    return this.themeBreakpoints;
+  }
+
+  /**
+   * Gets the theme layout of the current viewport: mobile, tablet or desktop
+   */
+  async getBreakpoint(): Promise<Breakpoint> {
+    const breakpoints = await this.getThemeBreakpoints();
+    return getBreakpointForWidth(await this.page.evaluate(() => window.innerWidth), breakpoints);
   }
 
   /**
    * Closes the store locator popup if it's currently open
    * This popup can interfere with clicks on other elements
+   * Does nothing when the popup isn't showing; tests get it dismissed automatically
+   * by the storeLocatorPopup fixture
    */
   async closeStoreLocatorPopup(): Promise<void> {
-    const storeLocatorPopuHeading = this.page.getByRole('heading', { name: "Select Your Richards Branch", level: 2 });
-    await expect(storeLocatorPopuHeading).toBeVisible()
-    await this.page.keyboard.press('Escape');
+    const storeLocatorDialog = this.getStoreLocatorDialog();
+    if (await storeLocatorDialog.isVisible()) {
+      await this.page.keyboard.press('Escape');
+      await storeLocatorDialog.waitFor({ state: 'hidden' });
+    }
+  }
+
+  /**
+   * Gets the "Select Your Richards Branch" store locator dialog
+   * @returns Locator for the dialog containing the branch heading
+   */
+  getStoreLocatorDialog(): Locator {
+    return this.page.getByRole('dialog').filter({
+      has: this.page.getByRole('heading', { name: 'Select Your Richards Branch', level: 2 }),
+    });
+  }
 
+  /**
+   * Runs an accessibility scan of the page or a region and fails on violations not in the baseline
+   * Known violations are annotated, and every scan is written to the accessibility report
+   * @param scan - Name of the scan, used as the baseline key (e.g., 'home', 'mega-menu')
+   * @param scope - Optional locator limiting the scan to one region
+   * @returns The scan result compared against the baseline
+   */
+  async auditAccessibility(scan: string, scope?: Locator): Promise<AccessibilityScanResult> {
+    const result = await runAccessibilityScan(this.page, scan, scope);
+    await recordAccessibilityScan(result);
+    if (!config.a11yUpdateBaseline) {
+      expect(
+        result.newViolations,
+        `New accessibility violations in "${scan}":\n${formatViolations(result.newViolations)}`
+      ).toEqual([]);
+    }
+    return result;
+  }
+
+  /**
+   * Runs an accessibility scan scoped to the store locator dialog
+   * The dialog must be open
+   */
+  async auditStoreLocatorDialog(): Promise<AccessibilityScanResult> {
+    return this.auditAccessibility('store-locator-dialog', this.getStoreLocatorDialog());
   }
 }
@@ -0,0 +1,117 @@
+import { type Page, type Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+
+/**
+ * Line item as returned by the Shopify AJAX cart API
+ */
+export type CartLineItem = {
+  key: string;
+  id: number;
+  variant_id: number;
+  product_id: number;
+  handle: string;
+  url: string;
+  sku: string | null;
+  title: string;
+  product_title: string;
+  variant_title: string | null;
+  quantity: number;
+  price: number;
+  line_price: number;
+};
+
+/**
+ * Cart as returned by `/cart.js` and `/cart/change.js`
+ */
+export type ShopifyCart = {
+  token: string;
+  item_count: number;
+  total_price: number;
+  currency: string;
+  items: CartLineItem[];
+};
+
+/**
+ * CartPage - Handles the /cart page
+ *
+ * This page object encapsulates cart interactions (update quantity, remove item)
+ * and reads the cart state through the Shopify AJAX cart API.
+ */
+export class CartPage extends BasePage {
+  readonly cartIcon: Locator;
+  readonly cartCountBubble: Locator;
+  readonly cartItems: Locator;
+  readonly emptyCartMessage: Locator;
+  readonly checkoutButton: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.cartIcon = page.locator('#cart-icon-bubble');
+    this.cartCountBubble = this.cartIcon.locator('.cart-count-bubble');
+    // Line items render as rows in both the drawer and the /cart page
+    this.cartItems = page.locator('.cart-item');
+    this.emptyCartMessage = page.getByText(/Your cart is empty/i).first();
+    this.checkoutButton = page.getByRole('button', { name: /Check out/i }).first();
+  }
+
+  /**
+   * Navigates to the /cart page
+   */
+  async open(): Promise<void> {
+    await this.goto('/cart');
+  }
+
+  /**
+   * Gets a cart line item row by product title
+   * @param productTitle - The product title shown in the cart
+   * @returns Locator for the cart line item row
+   */
+  getCartItemByName(productTitle: string): Locator {
+    return this.cartItems.filter({ hasText: productTitle }).first();
+  }
+
+  /**
+   * Reads the current cart from `/cart.js`
+   * @returns The cart state for this browser context
+   */
+  async getCart(): Promise<ShopifyCart> {
+    const response = await this.page.request.get(this.getUrl('/cart.js'));
+    return (await response.json()) as ShopifyCart;
+  }
+
+  /**
+   * Empties the cart through `/cart/clear.js`
+   * Used by fixtures so every test starts and ends with an empty cart
+   */
+  async clearCart(): Promise<void> {
+    const response = await this.page.request.post(this.getUrl('/cart/clear.js'));
+    expect(response.ok(), `POST /cart/clear.js returned ${response.status()}`).toBe(true);
+  }
+
+  /**
+   * Changes the quantity of a line item from the cart UI
+   * @param productTitle - The product title shown in the cart
+   * @param quantity - The new quantity
+   * @returns The cart returned by `/cart/change.js`
+   */
+  async updateQuantity(productTitle: string, quantity: number): Promise<ShopifyCart> {
+    const quantityInput = this.getCartItemByName(productTitle).locator('input[name="updates[]"]');
+    const changeResponse = this.waitForApiCall(/\/cart\/change(\.js)?/, { method: 'POST' });
+    await quantityInput.fill(String(quantity));
+    // The cart updates on the input's change event; Enter would submit the /cart form as a page post
+    await quantityInput.dispatchEvent('change');
+    return (await (await changeResponse).json()) as ShopifyCart;
+  }
+
+  /**
+   * Removes a line item from the cart UI
+   * @param productTitle - The product title shown in the cart
+   * @returns The cart returned by `/cart/change.js`
+   */
+  async removeItem(productTitle: string): Promise<ShopifyCart> {
+    const removeButton = this.getCartItemByName(productTitle).getByRole('button', { name: /Remove/i });
+    const changeResponse = this.waitForApiCall(/\/cart\/change(\.js)?/, { method: 'POST' });
+    await removeButton.click();
+    return (await (await changeResponse).json()) as ShopifyCart;
+  }
+}
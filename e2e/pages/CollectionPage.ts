@@ -1,28 +1,115 @@
-import type { Page, Locator } from '@playwright/test';
+import { type Page, type Locator, expect } from '@playwright/test';
 import { BasePage } from './BasePage';
+import { parsePrice } from '../helpers/price';
+import type { AccessibilityScanResult } from '../helpers/accessibility';
+
+/**
+ * Product card data read from a product grid
+ */
+export type ProductCard = {
+  name: string;
+  handle: string;
+  url: string;
+  sku: string | null;
+  price: number | null;
+  stockStatus: string | null;
+};
+
+/**
+ * Product card with its position across every page of the collection
+ */
+export type GridProduct = ProductCard & {
+  position: number;
+  pageNumber: number;
+};
+
+/**
+ * Pagination state of one collection page
+ */
+export type PaginationState = {
+  pageNumber: number;
+  url: string;
+  activePage: number | null;
+  pageLinks: number[];
+  hasPrevious: boolean;
+  hasNext: boolean;
+  productCount: number;
+};
+
+/**
+ * Result of crawling every page of a collection
+ */
+export type CollectionCrawl = {
+  displayedCount: number;
+  pages: PaginationState[];
+  products: GridProduct[];
+  duplicateHandles: string[];
+};
+
+/**
+ * A single option within a storefront filter (facet)
+ */
+export type FacetOption = {
+  label: string;
+  count: number;
+  checked: boolean;
+  disabled: boolean;
+};
 
 /**
  * CollectionPage - Handles collection listing page interactions
  *
  * This page object encapsulates interactions with product collection pages,
- * including product grid, sorting, pagination, and product search.
+ * including product grid, sorting, filtering, pagination, and product search.
+ *
+ * From the theme's tablet breakpoint up, facets and the product count sit in a
+ * sidebar; below it they move into the "Filter and sort" drawer. Filter methods
+ * open and close the drawer themselves, so specs never branch on the viewport.
  */
 export class CollectionPage extends BasePage {
-  readonly collectionHeading: Locator;
   readonly productCount: Locator;
   readonly productGrid: Locator;
+  readonly productGridContainer: Locator;
   readonly sortDropdown: Locator;
   readonly paginationNav: Locator;
+  readonly facetsForm: Locator;
+  readonly filterDrawer: Locator;
+  readonly filterDrawerApplyButton: Locator;
+  readonly activeFilterChips: Locator;
+  readonly clearAllFiltersLink: Locator;
+  readonly priceMinInput: Locator;
+  readonly priceMaxInput: Locator;
 
   constructor(page: Page) {
     super(page);
-    // Collection heading can be level 2 or 3 depending on context - don't specify level
-    this.collectionHeading = page.getByRole('heading', { name: 'Glass Bottles & Jars', level: 2});
-    this.productCount = page.getByText(/\d+ products/);
+    this.productCount = page.getByText(/\d+ products?\b/);
     // Target product cards using the product-card class or link with product URLs
     this.productGrid = page.locator('.product-card, li:has(a[href*="/products/"])').filter({ has: page.locator('a[href*="/products/"]') });
+    this.productGridContainer = page.locator('#product-grid');
     this.sortDropdown = page.getByRole('combobox', { name: /Sort by/i });
     this.paginationNav = page.getByRole('navigation', { name: 'Pagination' });
+    // The theme renders the facets twice, in the sidebar form and in the drawer form; only one is shown at a time
+    this.facetsForm = page.locator('#FacetFiltersForm, #FacetFiltersFormMobile');
+    this.filterDrawer = page.locator('menu-drawer.mobile-facets__wrapper details.mobile-facets__disclosure');
+    this.filterDrawerApplyButton = this.filterDrawer.getByRole('button', { name: 'Apply' });
+    // Active filter chips render as removable links above the grid, in a desktop and a mobile copy
+    this.activeFilterChips = page.locator('.active-facets facet-remove a.active-facets__button').filter({ visible: true });
+    this.clearAllFiltersLink = page
+      .locator('.active-facets')
+      .getByRole('link', { name: /Remove all|Clear all/i })
+      .filter({ visible: true })
+      .first();
+    this.priceMinInput = this.facetsForm.locator('input[name="filter.v.price.gte"]').filter({ visible: true });
+    this.priceMaxInput = this.facetsForm.locator('input[name="filter.v.price.lte"]').filter({ visible: true });
+  }
+
+  /**
+   * Gets the collection page heading by collection name
+   * @param collectionName - The collection name (e.g., 'Glass Bottles & Jars')
+   * @returns Locator for the collection heading
+   */
+  getCollectionHeading(collectionName: string): Locator {
+    return this.page.getByRole('heading', { name: collectionName, level: 2 });
   }
 
   /**
@@ -51,7 +138,6 @@ export class CollectionPage extends BasePage {
   async clickProductByName(productName: string): Promise<void> {
     const productLink = this.getProductCardByName(productName);
     await productLink.scrollIntoViewIfNeeded();
-    await this.closeStoreLocatorPopup();
     await productLink.click();
   }
 
@@ -64,6 +150,117 @@ export class CollectionPage extends BasePage {
     return this.page.getByText(`SKU:${sku}`);
   }
 
+  /**
+   * Reads the name, handle, product URL, SKU and price shown on a product card
+   * @param card - Locator for a single product card
+   * @returns The typed product card data
+   */
+  async readProductCard(card: Locator): Promise<ProductCard> {
+    const link = card.locator('a[href*="/products/"]').first();
+    const heading = card.getByRole('heading').first();
+    const name = (await heading.count()) > 0 ? await heading.innerText() : await link.innerText();
+    const href = (await link.getAttribute('href')) ?? '';
+    const cardText = await card.innerText();
+    const skuMatch = cardText.match(/SKU:\s*(\S+)/);
+    const stockMatch = cardText.match(/In stock|Out of stock/i);
+    // A sale price replaces the regular price, which stays in the DOM but hidden
+    const priceItem = card.locator('.price-item--sale, .price-item--regular').filter({ visible: true }).last();
+    const priceText = (await priceItem.count()) > 0 ? await priceItem.innerText() : '';
+
+    const url = new URL(href, this.page.url()).pathname;
+
+    return {
+      name: name.trim(),
+      handle: url.split('/').pop() ?? '',
+      url,
+      sku: skuMatch ? skuMatch[1] : null,
+      price: parsePrice(priceText),
+      stockStatus: stockMatch ? stockMatch[0] : null,
+    };
+  }
+
+  /**
+   * Reads every product card currently rendered in the product grid
+   * @returns Promise resolving to the product cards in grid order
+   */
+  async getProductCards(): Promise<ProductCard[]> {
+    const cards = await this.productGrid.all();
+    return Promise.all(cards.map((card) => this.readProductCard(card)));
+  }
+
+  /**
+   * Reads the product cards on every page of the collection, starting from the current page
+   * Follows the "Next" link until the last page
+   * @returns Promise resolving to every product in display order with its position
+   */
+  async getAllProductCards(): Promise<GridProduct[]> {
+    return (await this.crawlCollection()).products;
+  }
+
+  /**
+   * Reads the pagination controls of the current page
+   * @param pageNumber - The page number the crawl expects to be on
+   * @returns The pagination state with the number of products on the page
+   */
+  async getPaginationState(pageNumber: number): Promise<PaginationState> {
+    // Single-page collections render no pagination at all
+    const hasPagination = (await this.paginationNav.count()) > 0;
+    const activeText = hasPagination ? await this.paginationNav.locator('[aria-current="page"]').first().textContent() : '1';
+    const pageLinkLabels = hasPagination
+      ? await this.paginationNav.getByRole('link', { name: /^Page \d+$/ }).evaluateAll((links) =>
+          links.map((link) => link.getAttribute('aria-label') ?? link.textContent ?? '')
+        )
+      : [];
+
+    return {
+      pageNumber,
+      url: this.page.url(),
+      activePage: activeText ? parseInt(activeText.trim(), 10) : null,
+      pageLinks: pageLinkLabels.map((label) => parseInt(label.replace(/\D+/g, ''), 10)),
+      hasPrevious: hasPagination && (await this.paginationNav.getByRole('link', { name: 'Previous' }).count()) > 0,
+      hasNext: hasPagination && (await this.paginationNav.getByRole('link', { name: 'Next' }).count()) > 0,
+      productCount: await this.getVisibleProductCount(),
+    };
+  }
+
+  /**
+   * Walks every page of the collection, starting from the current page
+   * @param options.via - Follow the "Next" link (default) or the numbered page links
+   * @returns Every product with its position and page, the pagination state of each page,
+   *          the displayed "N products" count, and any product handle seen more than once
+   */
+  async crawlCollection(options: { via?: 'next' | 'numbers' } = {}): Promise<CollectionCrawl> {
+    const { via = 'next' } = options;
+    const crawl: CollectionCrawl = { displayedCount: 0, pages: [], products: [], duplicateHandles: [] };
+    const seenHandles = new Set<string>();
+
+    await this.waitForCollectionLoad();
+    crawl.displayedCount = await this.getDisplayedProductCount();
+
+    for (let pageNumber = 1; ; pageNumber++) {
+      await this.waitForCollectionLoad();
+      const state = await this.getPaginationState(pageNumber);
+      crawl.pages.push(state);
+
+      for (const card of await this.getProductCards()) {
+        if (seenHandles.has(card.handle)) crawl.duplicateHandles.push(card.handle);
+        seenHandles.add(card.handle);
+        crawl.products.push({ ...card, position: crawl.products.length + 1, pageNumber });
+      }
+
+      if (!state.hasNext) break;
+      const currentUrl = this.page.url();
+      if (via === 'numbers') {
+        await this.paginationNav.getByRole('link', { name: `Page ${pageNumber + 1}`, exact: true }).click();
+      } else {
+        await this.goToNextPage();
+      }
+      await this.page.waitForURL((url) => url.toString() !== currentUrl);
+    }
+
+    return crawl;
+  }
+
   /**
    * Gets the stock status locator (In stock or Out of stock)
    * @returns Locator for stock status text
@@ -78,8 +275,8 @@ export class CollectionPage extends BasePage {
    */
   async sortBy(sortOption: string): Promise<void> {
     await this.sortDropdown.selectOption(sortOption);
-    // Auto-wait for URL to update with sort parameter
-    await this.page.waitForURL(/sort_by=/);
+    // Auto-wait for URL to update with the selected sort parameter
+    await this.page.waitForURL((url) => url.searchParams.get('sort_by') === sortOption);
   }
 
   /**
@@ -99,6 +296,13 @@ export class CollectionPage extends BasePage {
     return await this.productGrid.count();
   }
 
+  /**
+   * Runs an accessibility scan scoped to the product grid
+   */
+  async auditProductGrid(): Promise<AccessibilityScanResult> {
+    return this.auditAccessibility('collection-grid', this.productGridContainer);
+  }
+
   /**
    * Waits for the collection page to fully load
    * Waits for product grid to be populated
@@ -106,4 +310,192 @@ export class CollectionPage extends BasePage {
   async waitForCollectionLoad(): Promise<void> {
     await this.productGrid.first().waitFor({ state: 'visible' });
   }
+
+  /**
+   * Checks whether the facet sidebar is shown at the current viewport
+   * Below the theme's tablet breakpoint the facets are in the "Filter and sort" drawer instead
+   */
+  async hasFacetSidebar(): Promise<boolean> {
+    return (await this.getBreakpoint()) !== 'mobile';
+  }
+
+  /**
+   * Asserts that the "N products" count is on the page
+   * It must be visible in the facet sidebar; below the tablet breakpoint it only has to be
+   * in the closed filter drawer
+   */
+  async expectProductCountShown(): Promise<void> {
+    if (await this.hasFacetSidebar()) {
+      await expect(this.productCount.first()).toBeVisible();
+    } else {
+      await expect(this.productCount.first()).toBeAttached();
+    }
+  }
+
+  /**
+   * Gets the displayed product count from the "N products" (or "1 product") text
+   * @returns Promise resolving to the number of products in the collection
+   */
+  async getDisplayedProductCount(): Promise<number> {
+    const text = await this.productCount.first().innerText();
+    return parseInt(text.match(/(\d+) products?\b/)?.[1] ?? '0', 10);
+  }
+
+  /**
+   * Opens the "Filter and sort" drawer below the tablet breakpoint
+   * The facet sidebar is always open, so this does nothing from the tablet breakpoint up
+   */
+  async openFilters(): Promise<void> {
+    if (await this.hasFacetSidebar()) return;
+    if ((await this.filterDrawer.getAttribute('open')) === null) {
+      await this.filterDrawer.locator('summary').first().click();
+    }
+    await this.facetsForm.filter({ visible: true }).first().waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Closes the "Filter and sort" drawer if it's open, so the grid and filter chips can be used again
+   * Uses the drawer's "Apply" button, which the theme wires to close the drawer
+   */
+  async closeFilters(): Promise<void> {
+    if ((await this.hasFacetSidebar()) || (await this.filterDrawer.getAttribute('open')) === null) return;
+    await this.filterDrawerApplyButton.click();
+    await expect(this.filterDrawer).not.toHaveAttribute('open');
+    await this.waitForCollectionLoad();
+  }
+
+  /**
+   * Gets a filter (facet) disclosure by its name in the sidebar or the open filter drawer
+   * @param facetName - The facet name (e.g., 'Capacity', 'Material')
+   * @returns Locator for the facet's details element
+   */
+  getFacet(facetName: string): Locator {
+    return this.facetsForm
+      .locator('details')
+      .filter({ has: this.page.locator('summary', { hasText: facetName }) })
+      .filter({ visible: true })
+      .first();
+  }
+
+  /**
+   * Gets a facet option checkbox by its label
+   * Option labels include the product count (e.g., 'Glass (12)'), so only the start is matched
+   * @param facetName - The facet name
+   * @param optionLabel - The option label without its count
+   */
+  getFacetOption(facetName: string, optionLabel: string): Locator {
+    const escaped = optionLabel.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.getFacet(facetName).getByRole('checkbox', { name: new RegExp(`^${escaped}(\\s|\\(|$)`) });
+  }
+
+  /**
+   * Opens a facet disclosure if it's collapsed, opening the filter drawer first below the tablet breakpoint
+   * @param facetName - The facet name
+   */
+  async openFacet(facetName: string): Promise<void> {
+    await this.openFilters();
+    const facet = this.getFacet(facetName);
+    if ((await facet.getAttribute('open')) === null) {
+      await facet.locator('summary').click();
+    }
+  }
+
+  /**
+   * Reads every option of a facet with its product count and state
+   * @param facetName - The facet name
+   * @returns Promise resolving to the facet options in display order
+   */
+  async getFacetOptions(facetName: string): Promise<FacetOption[]> {
+    await this.openFacet(facetName);
+    const checkboxes = await this.getFacet(facetName).getByRole('checkbox').all();
+
+    const options = await Promise.all(
+      checkboxes.map(async (checkbox) => {
+        const labelText = await checkbox.evaluate((input) => input.closest('label')?.textContent ?? '');
+        const normalized = labelText.replace(/\s+/g, ' ').trim();
+        const countMatch = normalized.match(/\((\d+)\)\s*$/);
+        return {
+          label: normalized.replace(/\s*\(\d+\)\s*$/, ''),
+          count: countMatch ? parseInt(countMatch[1], 10) : 0,
+          checked: await checkbox.isChecked(),
+          disabled: await checkbox.isDisabled(),
+        };
+      })
+    );
+    await this.closeFilters();
+    return options;
+  }
+
+  /**
+   * Applies a filter option and waits for the results to update
+   * @param facetName - The facet name (e.g., 'Material')
+   * @param optionLabel - The option label without its count (e.g., 'Glass')
+   */
+  async applyFilter(facetName: string, optionLabel: string): Promise<void> {
+    await this.openFacet(facetName);
+    const urlBefore = this.page.url();
+    await this.getFacetOption(facetName, optionLabel).check();
+    await this.page.waitForURL((url) => url.toString() !== urlBefore && url.search.includes('filter.'));
+    await this.closeFilters();
+    await this.waitForCollectionLoad();
+  }
+
+  /**
+   * Removes an active filter by clicking its chip
+   * @param chipText - Text of the active filter chip (e.g., 'Glass')
+   */
+  async removeFilter(chipText: string): Promise<void> {
+    const urlBefore = this.page.url();
+    await this.activeFilterChips.filter({ hasText: chipText }).first().click();
+    await this.page.waitForURL((url) => url.toString() !== urlBefore);
+    await this.waitForCollectionLoad();
+  }
+
+  /**
+   * Clears every active filter
+   */
+  async clearFilters(): Promise<void> {
+    await this.clearAllFiltersLink.click();
+    await this.page.waitForURL((url) => !url.search.includes('filter.'));
+    await this.waitForCollectionLoad();
+  }
+
+  /**
+   * Sets the price range filter
+   * @param min - Minimum price (omit to leave unset)
+   * @param max - Maximum price (omit to leave unset)
+   */
+  async setPriceRange(min?: number, max?: number): Promise<void> {
+    await this.openFacet('Price');
+    if (min !== undefined) await this.priceMinInput.fill(String(min));
+    if (max !== undefined) await this.priceMaxInput.fill(String(max));
+    // The facet form submits on input change, so leave the last field to trigger it
+    await (max !== undefined ? this.priceMaxInput : this.priceMinInput).press('Tab');
+    await this.page.waitForURL(/filter\.v\.price\.(gte|lte)=/);
+    await this.closeFilters();
+    await this.waitForCollectionLoad();
+  }
+
+  /**
+   * Reads the active filter chip labels
+   * @returns Promise resolving to the chip texts in display order
+   */
+  async getActiveFilters(): Promise<string[]> {
+    const chips = await this.activeFilterChips.allInnerTexts();
+    return chips.map((chip) => chip.replace(/\s+/g, ' ').trim());
+  }
+
+  /**
+   * Reads the `filter.*` parameters from the current URL
+   * @returns Map of filter parameter name to its values
+   */
+  getFilterParams(): Record<string, string[]> {
+    const params: Record<string, string[]> = {};
+    for (const [key, value] of new URL(this.page.url()).searchParams) {
+      if (key.startsWith('filter.')) {
+        (params[key] ??= []).push(value);
+      }
+    }
+    return params;
+  }
 }
@@ -1,61 +1,244 @@
 import type { Page, Locator } from '@playwright/test';
 import { BasePage } from './BasePage';
+import type { AccessibilityScanResult } from '../helpers/accessibility';
+import type { PageResources } from '../helpers/crawler';
+
+/**
+ * A menu item and its submenu items
+ */
+export type NavigationNode = {
+  label: string;
+  // Path the item links to; null for items that only open a submenu
+  href: string | null;
+  children: NavigationNode[];
+};
+
+/**
+ * How the header shows the Products menu: inline mega menu (desktop) or menu drawer (tablet and mobile)
+ */
+export type MenuLayout = 'mega-menu' | 'drawer';
 
 /**
  * NavigationPage - Handles main navigation and mega menu interactions
  *
  * This page object encapsulates interactions with the primary navigation menu,
- * including the mega menu dropdown for product categories.
+ * including the mega menu dropdown for product categories, and collects the
+ * links and images a page exposes for the broken link crawler.
+ *
+ * The menu layout follows the theme's desktop breakpoint, so specs call the same
+ * methods on every device and never branch on the viewport.
  */
 export class NavigationPage extends BasePage {
   readonly productsMenuButton: Locator;
   readonly mobileMenuButton: Locator;
-  readonly glassBottlesJarsLink: Locator;
-  readonly mobileGlassBottlesJarsLink: Locator;
   readonly mobileProductsItem: Locator;
+  readonly primaryNavigation: Locator;
+  readonly menuDrawer: Locator;
 
   constructor(page: Page) {
     super(page);
+    this.primaryNavigation = page.getByLabel('Primary');
     // Desktop: Target the Products menu item within the Primary navigation
-    this.productsMenuButton = page.locator('#Mega-menu-item-card_list_fmikiL')
+    this.productsMenuButton = this.getMenuItemButton('Products');
     // Mobile: Target the hamburger menu button
     this.mobileMenuButton = page.getByRole('button', { name: 'Menu' });
-    // Target Glass Bottles & Jars link specifically within Primary navigation to avoid duplicates
-    this.glassBottlesJarsLink = page.getByLabel('Primary').getByRole('link', { name: 'Glass Bottles & Jars' });
-    this.mobileGlassBottlesJarsLink = page.getByRole('link', { name: 'Glass Bottles & Jars' }).first()
     this.mobileProductsItem = page.locator('#MenuDrawer').getByText('Products', { exact: true }).first()
+    this.menuDrawer = page.locator('#MenuDrawer');
+  }
+
+  /**
+   * Gets a top-level menu item of the desktop Primary navigation that opens a dropdown
+   * Matched by its label rather than the generated details ID, which changes when the menu is edited
+   * @param label - The menu item label (e.g., 'Products')
+   * @returns Locator for the item's summary
+   */
+  getMenuItemButton(label: string): Locator {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.primaryNavigation.locator('details > summary').filter({ hasText: new RegExp(`^\\s*${escaped}\\s*$`) }).first();
+  }
+
+  /**
+   * Gets a collection link in the desktop mega menu
+   * Scoped to the Primary navigation to avoid duplicates in the footer and drawer
+   * @param collectionName - The collection link text (e.g., 'Glass Bottles & Jars')
+   * @returns Locator for the mega menu link
+   */
+  getCollectionLink(collectionName: string): Locator {
+    return this.primaryNavigation.getByRole('link', { name: collectionName, exact: true });
+  }
+
+  /**
+   * Gets a collection link in the mobile menu drawer
+   * @param collectionName - The collection link text (e.g., 'Glass Bottles & Jars')
+   * @returns Locator for the menu drawer link
+   */
+  getMobileCollectionLink(collectionName: string): Locator {
+    return this.menuDrawer.getByRole('link', { name: collectionName, exact: true }).first();
+  }
+
+  /**
+   * Gets the header menu layout of the current viewport
+   * The mega menu starts at the theme's desktop breakpoint; narrower viewports use the menu drawer
+   */
+  async getMenuLayout(): Promise<MenuLayout> {
+    return (await this.getBreakpoint()) === 'desktop' ? 'mega-menu' : 'drawer';
+  }
+
+  /**
+   * Gets the control that opens the Products menu in the current layout
+   * @returns The Products menu button, or the menu drawer button below the desktop breakpoint
+   */
+  async getProductsMenuTrigger(): Promise<Locator> {
+    return (await this.getMenuLayout()) === 'mega-menu' ? this.productsMenuButton : this.mobileMenuButton;
+  }
+
+  /**
+   * Gets a collection link in the Products menu of the current layout
+   * @param collectionName - The collection link text (e.g., 'Glass Bottles & Jars')
+   * @returns The mega menu link, or the menu drawer link below the desktop breakpoint
+   */
+  async getMenuCollectionLink(collectionName: string): Promise<Locator> {
+    return (await this.getMenuLayout()) === 'mega-menu'
+      ? this.getCollectionLink(collectionName)
+      : this.getMobileCollectionLink(collectionName);
   }
 
   /**
    * Opens the Products mega menu dropdown
-   * Handles both desktop (mega menu) and mobile (hamburger menu) navigation
-   * Waits for the mega menu to be visible after clicking
+   * Opens the mega menu on desktop, and the menu drawer and its Products item on tablet and mobile
+   * Waits for the menu's collection links to be visible after clicking
    */
   async openProductsMenu(): Promise<void> {
-    const isMobile = await this.isMobileViewport();
-
-    if (isMobile) {
-      // Mobile: Open hamburger menu first
+    if ((await this.getMenuLayout()) === 'drawer') {
+      // Drawer: Open hamburger menu first
       await this.mobileMenuButton.click({ timeout: 10000 });
       // Wait for the menu drawer to be visible before clicking Products
       await this.mobileProductsItem.waitFor({ state: 'visible', timeout: 10000 });
       // Find the Products menu item
       await this.mobileProductsItem.click({ timeout: 10000 });
-      await this.mobileGlassBottlesJarsLink.waitFor({ state: 'visible' });
+      await this.menuDrawer.locator('a[href*="/collections/"]').filter({ visible: true }).first().waitFor({ state: 'visible' });
     } else {
       // Desktop: Click mega menu button
       await this.productsMenuButton.click({ timeout: 10000 });
-      // Auto-wait for mega menu to appear by checking for a known link
-      await this.glassBottlesJarsLink.waitFor({ state: 'visible', timeout: 10000 });
+      // Auto-wait for mega menu to appear by checking for any collection link
+      await this.primaryNavigation.locator('a[href*="/collections/"]').filter({ visible: true }).first().waitFor({ state: 'visible', timeout: 10000 });
     }
   }
 
   /**
-   * Navigates to the Glass Bottles & Jars collection page via mega menu
-   * Opens the Products menu and clicks the Glass Bottles & Jars link
+   * Navigates to a collection page via the Products menu
+   * Opens the menu and clicks the collection link for the current layout
+   * @param collectionName - The collection link text (e.g., 'Glass Bottles & Jars')
    */
-  async navigateToGlassBottlesJars(): Promise<void> {
+  async navigateToCollection(collectionName: string): Promise<void> {
     await this.openProductsMenu();
-    await this.glassBottlesJarsLink.click();
+    await (await this.getMenuCollectionLink(collectionName)).click();
+  }
+
+  /**
+   * Runs an accessibility scan scoped to the open Products menu
+   * Scans the mega menu on desktop and the menu drawer on tablet and mobile
+   */
+  async auditProductsMenu(): Promise<AccessibilityScanResult> {
+    return (await this.getMenuLayout()) === 'drawer'
+      ? this.auditAccessibility('menu-drawer', this.menuDrawer)
+      : this.auditAccessibility('mega-menu', this.primaryNavigation);
+  }
+
+  /**
+   * Opens every header menu so lazily rendered links are in the DOM
+   * Desktop: opens the Products mega menu, then every other header dropdown
+   * Tablet and mobile: opens the menu drawer, then every submenu in it
+   */
+  async expandAllMenus(): Promise<void> {
+    await this.openProductsMenu();
+    const menus = (await this.getMenuLayout()) === 'drawer'
+      ? this.menuDrawer.locator('details')
+      : this.primaryNavigation.locator('details');
+    await menus.evaluateAll((elements) => elements.forEach((element) => element.setAttribute('open', '')));
+  }
+
+  /**
+   * Reads the Primary navigation or the menu drawer as a tree of menu items
+   * Nested list items become children, so mega menu columns and their links keep their structure.
+   * Both menus are in the DOM at every viewport; submenus that render lazily need expandAllMenus() first
+   * @param layout - Read the desktop mega menu (default) or the menu drawer
+   * @returns The top-level menu items in menu order
+   */
+  async getNavigationTree(layout: MenuLayout = 'mega-menu'): Promise<NavigationNode[]> {
+    const menu = layout === 'drawer' ? this.menuDrawer.locator('nav').first() : this.primaryNavigation;
+    return menu.evaluate((nav) => {
+      const parentItem = (element: Element) => element.parentElement?.closest('li') ?? null;
+      const build = (item: Element): NavigationNode => {
+        const label = [...item.querySelectorAll('a, summary')].find((element) => element.closest('li') === item);
+        const children = [...item.querySelectorAll('li')].filter((child) => parentItem(child) === item);
+        return {
+          label: (label?.textContent ?? '').replace(/\s+/g, ' ').trim(),
+          href: label instanceof HTMLAnchorElement ? new URL(label.href).pathname : null,
+          children: children.map(build),
+        };
+      };
+      const topLevel = [...nav.querySelectorAll('li')].filter((item) => {
+        const parent = parentItem(item);
+        return !parent || !nav.contains(parent);
+      });
+      return topLevel.map(build);
+    });
+  }
+
+  /**
+   * Reads a menu as a tree in the layout that shows it
+   * Resizes the viewport across the theme breakpoint when needed, opens every submenu,
+   * reads the tree and restores the viewport
+   * @param layout - The desktop mega menu or the menu drawer
+   * @returns The top-level menu items in menu order
+   */
+  async readMenuTree(layout: MenuLayout): Promise<NavigationNode[]> {
+    const viewport = this.page.viewportSize() ?? { width: 1280, height: 720 };
+    const breakpoints = await this.getThemeBreakpoints();
+    const width = layout === 'mega-menu'
+      ? Math.max(viewport.width, breakpoints.desktop)
+      : Math.min(viewport.width, breakpoints.tablet - 1);
+
+    await this.page.setViewportSize({ width, height: viewport.height });
+    try {
+      await this.expandAllMenus();
+      return await this.getNavigationTree(layout);
+    } finally {
+      await this.page.keyboard.press('Escape');
+      await this.page.setViewportSize(viewport);
+    }
+  }
+
+  /**
+   * Collects every link and image in the header, menu drawer, main content and footer
+   * Links that aren't http(s) (mailto:, tel:, javascript:) are left out
+   * @returns Absolute URLs of the page's links and images
+   */
+  async collectPageResources(): Promise<PageResources> {
+    return this.page.evaluate(() => {
+      const regions = [...document.querySelectorAll('header, #MenuDrawer, main, footer')];
+      const links = regions.flatMap((region) =>
+        [...region.querySelectorAll<HTMLAnchorElement>('a[href]')].map((link) => link.href)
+      );
+      const images = regions.flatMap((region) =>
+        [...region.querySelectorAll<HTMLImageElement>('img')].map((image) => image.currentSrc || image.src)
+      );
+      const isHttp = (url: string) => /^https?:/.test(url);
+      return { links: [...new Set(links)].filter(isHttp), images: [...new Set(images)].filter(isHttp) };
+    });
+  }
+
+  /**
+   * Opens a page, expands its menus and collects its links and images
+   * Used as the page scanner of the broken link crawler
+   * @param url - Absolute URL or store path of the page
+   */
+  async scanPage(url: string): Promise<PageResources> {
+    await this.goto(url);
+    // The store locator dialog covers the header on first visit
+    await this.closeStoreLocatorPopup();
+    await this.expandAllMenus();
+    return this.collectPageResources();
   }
 }
@@ -1,6 +1,7 @@
 import type { Page, Locator } from '@playwright/test';
 import { BasePage } from './BasePage';
-import { STORE_PASSWORD, TEST_THEME_ID } from '../helpers/constant';
+import { config, requireStorePassword, withPreviewTheme } from '../helpers/config';
+import { AuthError } from '../helpers/auth';
 
 /**
  * Page Object for Shopify store password page
@@ -11,6 +12,7 @@ export class PasswordPage extends BasePage {
   readonly passwordInput: Locator;
   readonly submitButton: Locator;
   readonly form: Locator;
+  readonly errorMessage: Locator;
 
   constructor(page: Page) {
     super(page);
@@ -19,42 +21,89 @@ export class PasswordPage extends BasePage {
     this.passwordInput = page.locator('#Password');
     this.form = page.locator('form[action="/password"]');
     this.submitButton = this.form.getByRole('button', { name: /enter|submit/i });
+    this.errorMessage = this.form.locator('.form__message, [role="alert"]').first();
   }
 
   /**
    * Checks if we're currently on the password page
    */
   async isPasswordPage(): Promise<boolean> {
+    if (new URL(this.page.url()).pathname === '/password') return true;
     return await this.passwordInput.isVisible().catch(() => false);
   }
 
   /**
    * Enters the store password and submits the form
-   * @param password - The password to enter (defaults to STORE_PASSWORD from config)
+   * Does nothing when the page isn't the password page
+   * @param password - The password to enter (defaults to the configured store password)
+   * @throws AuthError when the store rejects the password
    */
   async enterPassword(
-    password: string = STORE_PASSWORD
+    password: string = PasswordPage.getConfiguredPassword()
   ): Promise<void> {
-    await this.enterUsingPassword.click();
     const isPasswordPage = await this.isPasswordPage();
-    if (isPasswordPage) {
-      await this.passwordInput.fill(password);
-      console.log('[PasswordPage] Password filled');
-      await this.submitButton.click();
-      await this.passwordInput.waitFor({ state: 'hidden' }).catch(() => {
-      });
+    if (!isPasswordPage) return;
+
+    // Some password templates collapse the form behind "Enter using password"
+    if (await this.enterUsingPassword.isVisible()) {
+      await this.enterUsingPassword.click();
+    }
+    await this.passwordInput.fill(password);
+    console.log('[PasswordPage] Password filled');
+    await this.submitButton.click();
+    // Shopify redirects away from /password on success and re-renders it with an error otherwise
+    await this.page.waitForURL((url) => url.pathname !== '/password', { timeout: 10000 }).catch(() => {});
+
+    if (await this.isPasswordPage()) {
+      const error = (await this.errorMessage.isVisible()) ? ` The store said: "${(await this.errorMessage.innerText()).trim()}".` : '';
+      throw new AuthError(
+        `The store rejected the password for ${config.storeUrl} (profile ${config.profile}).${error} Check STORE_PASSWORD.`
+      );
     }
   }
 
   /**
    * Navigates to a path and automatically handles password if needed
    * @param path - The path to navigate to
+   * @returns Whether the store asked for the password
    */
   async navigateWithPasswordCheck(
     path: string
-  ): Promise<void> {
-    const passwordProtectedUrl = path + `?preview_theme_id=${TEST_THEME_ID}`
-    await this.goto(passwordProtectedUrl);
-    await this.enterPassword(STORE_PASSWORD);
+  ): Promise<boolean> {
+    await this.goto(withPreviewTheme(path));
+    const passwordRequired = await this.isPasswordPage();
+    await this.enterPassword();
+    return passwordRequired;
+  }
+
+  /**
+   * Logs in again whenever the test lands on the password page, then returns to the page it asked for
+   * Shopify answers requests from an expired session with a redirect to /password; the redirected URL is kept
+   */
+  async enableAutoRelogin(): Promise<void> {
+    let returnUrl: string | null = null;
+
+    this.page.on('response', (response) => {
+      const request = response.request();
+      const location = response.headers()['location'] ?? '';
+      if (request.isNavigationRequest() && request.frame() === this.page.mainFrame() && location.includes('/password')) {
+        returnUrl = response.url();
+      }
+    });
+
+    await this.page.addLocatorHandler(this.form, async () => {
+      console.log(`[PasswordPage] Session expired, logging in again${returnUrl ? ` and returning to ${returnUrl}` : ''}`);
+      await this.enterPassword();
+      await this.goto(withPreviewTheme(returnUrl ?? '/'));
+      returnUrl = null;
+    });
+  }
+
+  /**
+   * Reads the store password from the configuration
+   * @throws ConfigError when STORE_PASSWORD is unset
+   */
+  private static getConfiguredPassword(): string {
+    return requireStorePassword().reveal();
   }
 }
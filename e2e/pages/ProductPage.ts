@@ -1,5 +1,73 @@
-import type { Page, Locator } from '@playwright/test';
+import { type Page, type Locator, expect } from '@playwright/test';
 import { BasePage } from './BasePage';
+import type { CartLineItem } from './CartPage';
+import type { AccessibilityScanResult } from '../helpers/accessibility';
+import { type ProductStructuredData, findJsonLdNodes, readProductNode } from '../helpers/structuredData';
+import { type UnitPrice, parsePrice, parseUnitPrice } from '../helpers/price';
+import { type QuantityRule, DEFAULT_QUANTITY_RULE } from '../helpers/quantityRule';
+import {
+  type SpecificationDifference,
+  type SpecificationMap,
+  diffSpecifications,
+  formatSpecificationDiff,
+  parseSpecifications,
+} from '../helpers/specifications';
+
+/**
+ * A product variant as listed by `/products/<handle>.js`
+ */
+export type ProductVariant = {
+  id: number;
+  title: string;
+  // Option values in option order, e.g. ['6'] for a 6-case pack
+  options: string[];
+  sku: string | null;
+  // Price in the store currency (not cents)
+  price: number;
+  // Price per reference unit (e.g. per 100 ml), null when the variant has no unit price
+  unitPrice: UnitPrice | null;
+  available: boolean;
+  quantityRule: QuantityRule;
+};
+
+/**
+ * A product option with its values, e.g. { name: 'Case Pack', values: ['6', '12'] }
+ */
+export type ProductOption = {
+  name: string;
+  values: string[];
+};
+
+/**
+ * What the product page shows for the selected variant
+ */
+export type SelectedVariantState = {
+  // The ?variant= URL parameter, null before a variant is chosen
+  variantId: number | null;
+  sku: string | null;
+  price: number | null;
+  unitPrice: UnitPrice | null;
+  availability: string | null;
+};
+
+/**
+ * Variant fields of `/products/<handle>.js` read by the product page
+ */
+type ShopifyProductJs = {
+  options: ProductOption[];
+  variants: {
+    id: number;
+    title: string;
+    options: string[];
+    sku: string | null;
+    price: number;
+    // In cents, with the unit it refers to (a reference value of 1 isn't shown)
+    unit_price?: number;
+    unit_price_measurement?: { reference_value: number; reference_unit: string };
+    available: boolean;
+    quantity_rule?: { min: number; max: number | null; increment: number };
+  }[];
+};
 
 /**
  * ProductPage - Handles product detail page interactions
@@ -11,14 +79,28 @@ export class ProductPage extends BasePage {
   readonly productTitle: Locator;
   readonly galleryViewer: Locator;
   readonly productDetailsButton: Locator;
+  readonly specificationsSection: Locator;
   readonly complementaryProducts: Locator;
+  readonly productInfo: Locator;
+  readonly priceContainer: Locator;
+  readonly quantityInput: Locator;
+  readonly increaseQuantityButton: Locator;
+  readonly decreaseQuantityButton: Locator;
+  readonly addToCartButton: Locator;
 
   constructor(page: Page) {
     super(page);
     this.productTitle = page.getByRole('heading', { level: 1 });
     this.galleryViewer = page.getByRole('region', { name: 'Gallery Viewer' });
     this.productDetailsButton = page.getByRole('button', { name: 'Product Details' });
+    this.specificationsSection = page.locator('#Details---attributes');
     this.complementaryProducts = page.getByRole('heading', { name: 'Complementary Products', level: 2 });
+    this.productInfo = page.locator('product-info, main').first();
+    this.priceContainer = this.productInfo.locator('.price').first();
+    this.quantityInput = page.locator('product-info input[name="quantity"], form[action*="/cart/add"] input[name="quantity"]').first();
+    this.increaseQuantityButton = page.getByRole('button', { name: /Increase quantity/i }).first();
+    this.decreaseQuantityButton = page.getByRole('button', { name: /Decrease quantity/i }).first();
+    this.addToCartButton = page.locator('form[action*="/cart/add"]').getByRole('button', { name: /Add to cart/i }).first();
   }
 
   /**
@@ -39,6 +121,23 @@ export class ProductPage extends BasePage {
     return this.page.getByText(`SKU: ${sku}`);
   }
 
+  /**
+   * Gets the stock status locator (In stock or Out of stock) for the selected branch
+   * @returns Locator for stock status text in the product information
+   */
+  getStockStatus(): Locator {
+    return this.page.locator('main').locator('text=/In stock|Out of stock/').first();
+  }
+
+  /**
+   * Reads the Product node from the page's JSON-LD with its offers
+   * @returns The product data, or null when the page has no Product node
+   */
+  async getProductStructuredData(): Promise<ProductStructuredData | null> {
+    const [node] = findJsonLdNodes(await this.getJsonLd(), 'Product');
+    return node ? readProductNode(node) : null;
+  }
+
   /**
    * Expands the Product Details accordion section if collapsed
    * Waits for the content to be visible after expanding
@@ -66,21 +165,212 @@ export class ProductPage extends BasePage {
   }
 
   /**
-   * Gets a specification locator by name
-   * @param specName - The specification label (e.g., 'Capacity:', 'Material:')
-   * @returns Locator for the specification text
+   * Reads every attribute of the Product Details section, expanding it first
+   * Labels become camelCase keys: 'Country of Origin:' -> 'countryOfOrigin'
+   * @returns The specifications, or an empty map when the product has no Product Details
    */
-  getSpecificationLabel(specName: string): Locator {
-    return this.page.getByText(`${specName}:`);
+  async getSpecifications(): Promise<SpecificationMap> {
+    await this.expandProductDetails();
+    if ((await this.specificationsSection.count()) === 0) return {};
+    return parseSpecifications(await this.specificationsSection.innerText());
   }
 
   /**
-   * Gets a specification value locator by the value text
-   * @param value - The specification value text
-   * @returns Locator for the value text within the product details section
+   * Checks the Product Details against expected specifications and reports every difference at once
+   * Attributes the expectation doesn't list are shown in the diff but only fail with `exact`
+   * @param expected - Expected values keyed by label or camelCase key (e.g. TARGET_PRODUCT.specifications)
+   * @param options.exact - Also fail on attributes the expectation doesn't list
+   * @returns Every difference, including extra attributes
    */
-  getSpecificationValue(value: string): Locator {
-    // Target specification values within details/summary accordion context
-    return this.page.locator('#Details---attributes').getByText(value).first();
+  async expectSpecifications(
+    expected: Record<string, string>,
+    options: { exact?: boolean } = {}
+  ): Promise<SpecificationDifference[]> {
+    const differences = diffSpecifications(await this.getSpecifications(), expected);
+    const failures = options.exact ? differences : differences.filter((difference) => difference.kind !== 'extra');
+    expect(failures, `Product Details on ${this.page.url()}:\n${formatSpecificationDiff(differences)}`).toEqual([]);
+    return differences;
+  }
+
+  /**
+   * Runs an accessibility scan scoped to the product gallery
+   */
+  async auditGallery(): Promise<AccessibilityScanResult> {
+    return this.auditAccessibility('product-gallery', this.galleryViewer);
+  }
+
+  /**
+   * Lists the variants of the current product from `/products/<handle>.js`
+   * Variants without a quantity rule get the default rule (min 1, increment 1)
+   * @returns The variants in admin order
+   */
+  async getVariants(): Promise<ProductVariant[]> {
+    const product = await this.getProductJson();
+    return product.variants.map((variant) => ({
+      id: variant.id,
+      title: variant.title,
+      options: variant.options,
+      sku: variant.sku || null,
+      price: variant.price / 100,
+      unitPrice:
+        variant.unit_price !== undefined && variant.unit_price_measurement
+          ? {
+              amount: variant.unit_price / 100,
+              per: `${variant.unit_price_measurement.reference_value === 1 ? '' : `${variant.unit_price_measurement.reference_value} `}${variant.unit_price_measurement.reference_unit}`,
+            }
+          : null,
+      available: variant.available,
+      quantityRule: variant.quantity_rule ?? DEFAULT_QUANTITY_RULE,
+    }));
+  }
+
+  /**
+   * Lists the options of the current product (e.g. 'Case Pack') with their values
+   */
+  async getProductOptions(): Promise<ProductOption[]> {
+    const product = await this.getProductJson();
+    return product.options.map(({ name, values }) => ({ name, values }));
+  }
+
+  /**
+   * Picks an option value such as the case pack size, unless it is already selected
+   * Handles both radio-button pickers and dropdown pickers. Doesn't wait for the page to
+   * update; selectVariant waits for the resulting variant.
+   * @param optionName - The option name (e.g., 'Case Pack')
+   * @param value - The option value to select (e.g., '6')
+   * @returns Whether the selection changed
+   */
+  async selectVariantOption(optionName: string, value: string): Promise<boolean> {
+    const radioGroup = this.page.getByRole('group', { name: optionName });
+    if (await radioGroup.count() > 0) {
+      if (await radioGroup.getByRole('radio', { name: value, exact: true }).isChecked()) return false;
+      await radioGroup.getByText(value, { exact: true }).click();
+      return true;
+    }
+    const dropdown = this.page.getByRole('combobox', { name: optionName });
+    if ((await dropdown.inputValue()) === value) return false;
+    await dropdown.selectOption({ label: value });
+    return true;
+  }
+
+  /**
+   * Selects every option value of a variant and waits for the page to show it
+   * When an option changed, waits for `?variant=` to name this variant; the SKU and price
+   * are checked in every case, including single-variant products without a picker
+   * @param variant - A variant from getVariants
+   * @returns Whether an option was changed, i.e. whether the URL names the variant
+   */
+  async selectVariant(variant: ProductVariant): Promise<boolean> {
+    const options = await this.getProductOptions();
+    let changed = false;
+    for (const [index, option] of options.entries()) {
+      // Products without options have a single 'Title' option and no picker
+      if (option.values.length < 2) continue;
+      if (await this.selectVariantOption(option.name, variant.options[index])) changed = true;
+    }
+    if (changed) {
+      await this.page.waitForURL((url) => url.searchParams.get('variant') === String(variant.id));
+    }
+    if (variant.sku) {
+      await this.getSKUByNumber(variant.sku).waitFor({ state: 'visible' });
+    }
+    await expect.poll(async () => (await this.getSelectedVariantState()).price).toBe(variant.price);
+    return changed;
+  }
+
+  /**
+   * Reads the selected variant's ID, SKU, price, unit price and availability as shown on the page
+   */
+  async getSelectedVariantState(): Promise<SelectedVariantState> {
+    const variantParam = new URL(this.page.url()).searchParams.get('variant');
+    const skuText = this.productInfo.getByText(/SKU:\s*\S+/).first();
+    // A sale price replaces the regular price, which stays in the DOM but hidden
+    const priceItem = this.priceContainer.locator('.price-item--sale, .price-item--regular').filter({ visible: true }).last();
+    const unitPrice = this.priceContainer.locator('.unit-price').filter({ visible: true }).first();
+    const stockStatus = this.getStockStatus();
+
+    return {
+      variantId: variantParam ? Number(variantParam) : null,
+      sku: (await skuText.count()) > 0 ? ((await skuText.innerText()).match(/SKU:\s*(\S+)/)?.[1] ?? null) : null,
+      price: (await priceItem.count()) > 0 ? parsePrice(await priceItem.innerText()) : null,
+      unitPrice: (await unitPrice.count()) > 0 ? parseUnitPrice(await unitPrice.innerText()) : null,
+      availability: (await stockStatus.count()) > 0 ? (await stockStatus.innerText()).trim() : null,
+    };
+  }
+
+  /**
+   * Reads the quantity rule the quantity input enforces for the selected variant
+   * @returns The min, max and step attributes of the input
+   */
+  async getQuantityRule(): Promise<QuantityRule> {
+    const [min, max, step] = await Promise.all(
+      ['min', 'max', 'step'].map((attribute) => this.quantityInput.getAttribute(attribute))
+    );
+    return {
+      min: min ? Number(min) : DEFAULT_QUANTITY_RULE.min,
+      max: max ? Number(max) : null,
+      increment: step ? Number(step) : DEFAULT_QUANTITY_RULE.increment,
+    };
+  }
+
+  /**
+   * Reads the quantity to add to the cart
+   */
+  async getQuantity(): Promise<number> {
+    return Number(await this.quantityInput.inputValue());
+  }
+
+  /**
+   * Sets the quantity to add to the cart
+   * @param quantity - The quantity to enter
+   */
+  async setQuantity(quantity: number): Promise<void> {
+    await this.quantityInput.fill(String(quantity));
+  }
+
+  /**
+   * Raises the quantity by one increment with the + button
+   * The theme updates the input in the click handler and keeps it at the rule's maximum
+   * @returns The new quantity
+   */
+  async increaseQuantity(): Promise<number> {
+    await this.increaseQuantityButton.click();
+    return this.getQuantity();
+  }
+
+  /**
+   * Lowers the quantity by one increment with the - button
+   * The theme keeps the quantity at the rule's minimum
+   * @returns The new quantity
+   */
+  async decreaseQuantity(): Promise<number> {
+    await this.decreaseQuantityButton.click();
+    return this.getQuantity();
+  }
+
+  /**
+   * Reads `/products/<handle>.js` for the product on the current page
+   */
+  private async getProductJson(): Promise<ShopifyProductJs> {
+    const handle = new URL(this.page.url()).pathname.split('/products/')[1]?.split('/')[0];
+    if (!handle) {
+      throw new Error(`[ProductPage] ${this.page.url()} is not a product page`);
+    }
+    const response = await this.page.request.get(this.getUrl(`/products/${handle}.js`));
+    return (await response.json()) as ShopifyProductJs;
+  }
+
+  /**
+   * Adds the selected variant to the cart
+   * @param quantity - Optional quantity to set before adding
+   * @returns The line item returned by `/cart/add.js`
+   */
+  async addToCart(quantity?: number): Promise<CartLineItem> {
+    if (quantity !== undefined) {
+      await this.setQuantity(quantity);
+    }
+    const addResponse = this.waitForApiCall(/\/cart\/add(\.js)?/, { method: 'POST' });
+    await this.addToCartButton.click();
+    return (await (await addResponse).json()) as CartLineItem;
   }
 }
@@ -0,0 +1,82 @@
+import type { Page, Locator } from '@playwright/test';
+import { CollectionPage, type ProductCard } from './CollectionPage';
+
+/**
+ * SearchPage - Handles header search, predictive search and the /search results page
+ *
+ * The /search results page renders the same product cards as a collection,
+ * so this page object extends CollectionPage to reuse its grid, card and SKU helpers.
+ */
+export class SearchPage extends CollectionPage {
+  readonly searchToggle: Locator;
+  readonly searchInput: Locator;
+  readonly predictiveSearchResults: Locator;
+  readonly predictiveProductItems: Locator;
+  readonly resultsSearchInput: Locator;
+  readonly resultsCount: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    // Desktop and mobile share the same header search modal
+    this.searchToggle = page.locator('header .header__icon--search').first();
+    this.searchInput = page.locator('#Search-In-Modal');
+    this.predictiveSearchResults = page.locator('#predictive-search-results');
+    this.predictiveProductItems = page.locator('#predictive-search-results-products-list li');
+    this.resultsSearchInput = page.locator('#Search-In-Template');
+    this.resultsCount = page.getByText(/\d+ results? found/i).first();
+  }
+
+  /**
+   * Opens the header search modal
+   * Waits for the search input to be visible after clicking
+   */
+  async openSearch(): Promise<void> {
+    await this.searchToggle.click();
+    await this.searchInput.waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Types a query into the header search box and waits for predictive search
+   * @param query - The search term (e.g., a SKU or product name)
+   */
+  async typeQuery(query: string): Promise<void> {
+    const suggestResponse = this.waitForApiCall('/search/suggest');
+    await this.searchInput.fill(query);
+    await suggestResponse;
+    await this.predictiveSearchResults.waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Reads the product suggestions shown in the predictive search dropdown
+   * @returns Promise resolving to the suggested product cards in order
+   */
+  async getSuggestedProducts(): Promise<ProductCard[]> {
+    const items = await this.predictiveProductItems.all();
+    return Promise.all(items.map((item) => this.readProductCard(item)));
+  }
+
+  /**
+   * Submits the header search to open the full results page
+   */
+  async submitSearch(): Promise<void> {
+    await this.searchInput.press('Enter');
+    await this.page.waitForURL(/\/search\?/);
+  }
+
+  /**
+   * Navigates directly to the /search results page for a query
+   * @param query - The search term
+   */
+  async gotoResults(query: string): Promise<void> {
+    await this.goto(`/search?q=${encodeURIComponent(query)}&options%5Bprefix%5D=last`);
+  }
+
+  /**
+   * Reads the product cards on the /search results page
+   * @returns Promise resolving to the result product cards in order
+   */
+  async getResultCards(): Promise<ProductCard[]> {
+    await this.waitForCollectionLoad();
+    return this.getProductCards();
+  }
+}
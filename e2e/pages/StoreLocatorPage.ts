@@ -0,0 +1,118 @@
+import type { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+
+/**
+ * StoreLocatorPage - Handles the "Select Your Richards Branch" dialog
+ *
+ * The dialog opens on a visitor's first page view and from the branch button in
+ * the header. The selected branch decides which inventory the storefront shows,
+ * so stock status on collection and product pages depends on it.
+ */
+export class StoreLocatorPage extends BasePage {
+  readonly dialog: Locator;
+  readonly heading: Locator;
+  readonly searchInput: Locator;
+  readonly branchItems: Locator;
+  readonly headerBranchButton: Locator;
+
+  constructor(page: Page) {
+    super(page);
+    this.dialog = this.getStoreLocatorDialog();
+    this.heading = this.dialog.getByRole('heading', { name: 'Select Your Richards Branch', level: 2 });
+    this.searchInput = this.dialog.getByRole('searchbox').or(this.dialog.getByRole('textbox')).first();
+    // Each branch is a list item with its name, address and a select button
+    this.branchItems = this.dialog.getByRole('listitem').filter({ has: page.getByRole('button') });
+    // Shows the selected branch and reopens the dialog
+    this.headerBranchButton = page.locator('header').getByRole('button', { name: /branch/i }).first();
+  }
+
+  /**
+   * Registers a handler that presses Escape whenever the dialog appears
+   * Playwright runs it before any action the dialog would block
+   */
+  async autoDismiss(): Promise<void> {
+    await this.page.addLocatorHandler(this.heading, async () => {
+      await this.page.keyboard.press('Escape');
+    });
+  }
+
+  /**
+   * Opens the dialog from the header branch button unless it is already open
+   * Waits for the branch list to be visible
+   */
+  async open(): Promise<void> {
+    if (!(await this.dialog.isVisible())) {
+      await this.headerBranchButton.click();
+    }
+    await this.branchItems.first().waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Gets a branch list item by branch name
+   * @param branchName - The branch name as listed in the dialog
+   * @returns Locator for the branch list item
+   */
+  getBranch(branchName: string): Locator {
+    return this.branchItems.filter({ hasText: branchName }).first();
+  }
+
+  /**
+   * Reads the names of the branches currently listed
+   * @returns Branch names in list order
+   */
+  async getBranchNames(): Promise<string[]> {
+    const names: string[] = [];
+    for (const item of await this.branchItems.filter({ visible: true }).all()) {
+      const heading = item.getByRole('heading').first();
+      const text = (await heading.count()) > 0 ? await heading.innerText() : await item.innerText();
+      names.push(text.split('\n')[0].trim());
+    }
+    return names;
+  }
+
+  /**
+   * Filters the branch list with the dialog's search field
+   * @param query - City, state, postal code or branch name
+   * @returns Branch names listed after filtering
+   */
+  async searchBranches(query: string): Promise<string[]> {
+    await this.searchInput.fill(query);
+    await this.searchInput.press('Enter');
+    await this.branchItems.filter({ hasText: new RegExp(escapeRegExp(query), 'i') }).first().waitFor({ state: 'visible' });
+    return this.getBranchNames();
+  }
+
+  /**
+   * Selects a branch and waits for the storefront to reload its inventory
+   * @param branchName - The branch name as listed in the dialog
+   */
+  async selectBranch(branchName: string): Promise<void> {
+    await this.open();
+    await this.getBranch(branchName).getByRole('button').first().click();
+    await this.dialog.waitFor({ state: 'hidden' });
+    await this.page.waitForLoadState('domcontentloaded');
+  }
+
+  /**
+   * Reads the branch shown in the header
+   * @returns The header button text (includes the branch name once one is chosen), or null without a button
+   */
+  async getSelectedBranch(): Promise<string | null> {
+    if ((await this.headerBranchButton.count()) === 0) return null;
+    return (await this.headerBranchButton.innerText()).trim();
+  }
+
+  /**
+   * Closes the dialog without choosing a branch
+   */
+  async dismiss(): Promise<void> {
+    await this.closeStoreLocatorPopup();
+  }
+}
+
+/**
+ * Escapes a search query for use in a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,44 +1,79 @@
 import { defineConfig, devices } from '@playwright/test';
 import * as path from 'path';
-import { TEST_URL } from './helpers/constant'
+import { config } from './helpers/config';
+import { getStorageStatePath } from './helpers/auth';
+import type { PageOptions } from './fixtures';
 
-export default defineConfig({
+/**
+ * Browser projects; each gets an auth setup project and its own storage state
+ */
+const BROWSER_PROJECTS = [
+  { name: 'chromium', device: devices['Desktop Chrome'] },
+  { name: 'firefox', device: devices['Desktop Firefox'] },
+  { name: 'safari', device: devices['Desktop Safari'] },
+  { name: 'mobile-chrome', device: devices['Pixel 5'] },
+  { name: 'mobile-safari', device: devices['iPhone 12'] },
+  // 810px wide: tablet layout with the menu drawer; 1080px wide: desktop layout with the mega menu
+  // Page objects pick the layout from the theme's breakpoints (helpers/breakpoints.ts)
+  { name: 'tablet-portrait', device: devices['iPad (gen 7)'] },
+  { name: 'tablet-landscape', device: devices['iPad (gen 7) landscape'] },
+];
+
+// Typed with the fixture options, so a project can set e.g. use: { thirdPartyProfile: 'block' }
+export default defineConfig<PageOptions>({
   testDir: './tests',
   timeout: 30000,
   fullyParallel: true,
   forbidOnly: !!process.env['CI'],
   retries: process.env['CI'] ? 2 : 0,
+  // Baselines are stored per project: visual-regression.spec.ts-snapshots/<name>-<project>-<platform>.png
+  expect: {
+    toHaveScreenshot: {
+      maxDiffPixelRatio: config.visualMaxDiffRatio,
+      animations: 'disabled',
+      caret: 'hide',
+    },
+  },
   reporter: [
     ['html'],
     ['json', { outputFile: 'test-results.json' }],
+    ['./reporters/historyReporter.ts'],
   ],
   use: {
-    baseURL: TEST_URL,
+    baseURL: config.storeUrl,
     trace: 'on-first-retry',
     screenshot: 'only-on-failure',
-    storageState: path.resolve(__dirname, 'storageState.json'),
   },
   globalSetup: path.resolve(__dirname, 'global-setup.ts'),
   projects: [
     {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
-    {
-      name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
-    },
-    {
-      name: 'safari',
-      use: { ...devices['Desktop Safari'] },
-    },
-    {
-      name: 'mobile-chrome',
-      use: { ...devices['Pixel 5'] },
-    },
-    {
-      name: 'mobile-safari',
-      use: { ...devices['iPhone 12'] },
+      // Offline specs for the tooling in helpers/ and scripts/ - only the link crawler specs open a
+      // browser (Chromium), against a local fixture site
+      name: 'tools',
+      testMatch: /tools\/.*\.spec\.ts/,
     },
+    // One auth setup project per browser, so each browser reuses a session it created itself
+    ...BROWSER_PROJECTS.map(({ name, device }) => ({
+      name: `setup-${name}`,
+      testMatch: /auth\.setup\.ts/,
+      use: { ...device },
+    })),
+    ...BROWSER_PROJECTS.map(({ name, device }) => ({
+      name,
+      use: {
+        ...device,
+        // Replay runs never log in, so there is no session to load
+        storageState: config.replay ? undefined : getStorageStatePath(name),
+      },
+      dependencies: [`setup-${name}`],
+      // Visual and accessibility specs only run with VISUAL_TESTS=1 and A11Y_TESTS=1 (npm run test:visual,
+      // npm run test:a11y), since they need committed baselines
+      testIgnore: [
+        /tools\//,
+        /auth\.setup\.ts/,
+        ...(config.visualTests ? [] : [/visual\//]),
+        ...(config.a11yTests ? [] : [/accessibility\//]),
+      ],
+    })),
   ],
 });
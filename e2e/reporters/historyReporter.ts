@@ -0,0 +1,93 @@
+import type { FullConfig, FullResult, Reporter, Suite } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../helpers/config';
+import {
+  MAX_HISTORY_RUNS,
+  RUN_HISTORY_DIR,
+  RUN_HISTORY_PATH,
+  type RunRecord,
+  appendRun,
+  buildSlackPayload,
+  getTestId,
+  readRunHistory,
+  summarizeLatestRun,
+  writeRunHistory,
+} from '../helpers/runHistory';
+
+type HistoryReporterOptions = {
+  historyFile?: string;
+  slackPayloadFile?: string;
+  maxRuns?: number;
+};
+
+/**
+ * HistoryReporter - Appends every run to the run history store
+ *
+ * Records each test's outcome, retries, duration and project. In GitHub Actions
+ * (GITHUB_RUN_ID set) it also writes a Slack payload summarizing the run against
+ * the history (newly failing, flakiest and slowest tests), which CI posts as is.
+ *
+ * Runs that executed no test (e.g. --list) are not recorded.
+ */
+export default class HistoryReporter implements Reporter {
+  private readonly historyFile: string;
+  private readonly slackPayloadFile: string;
+  private readonly maxRuns: number;
+  private rootDir = '';
+  private suite: Suite | undefined;
+
+  constructor(options: HistoryReporterOptions = {}) {
+    this.historyFile = options.historyFile ?? RUN_HISTORY_PATH;
+    this.slackPayloadFile = options.slackPayloadFile ?? path.join(RUN_HISTORY_DIR, 'slack-payload.json');
+    this.maxRuns = options.maxRuns ?? MAX_HISTORY_RUNS;
+  }
+
+  onBegin(fullConfig: FullConfig, suite: Suite): void {
+    this.rootDir = fullConfig.rootDir;
+    this.suite = suite;
+  }
+
+  onEnd(result: FullResult): void {
+    const tests = (this.suite?.allTests() ?? []).filter((test) => test.results.length > 0);
+    if (tests.length === 0) return;
+
+    const run: RunRecord = {
+      startedAt: result.startTime.toISOString(),
+      duration: Math.round(result.duration),
+      status: result.status,
+      profile: config.profile,
+      themeId: config.themeId,
+      branch: process.env['GITHUB_REF_NAME'] ?? null,
+      commit: process.env['GITHUB_SHA'] ?? null,
+      tests: tests.map((test) => ({
+        testId: getTestId(test.title),
+        title: test.titlePath().slice(3).join(' › '),
+        file: path.relative(this.rootDir, test.location.file),
+        project: test.parent.project()?.name ?? '',
+        outcome: test.outcome(),
+        retries: test.results.length - 1,
+        duration: test.results.at(-1)?.duration ?? 0,
+        thirdParty: test.annotations.find((annotation) => annotation.type === 'third-party')?.description,
+      })),
+    };
+
+    const history = appendRun(readRunHistory(this.historyFile), run, this.maxRuns);
+    writeRunHistory(history, this.historyFile);
+
+    // Local runs only update the history; the payload is for the CI Slack step
+    const runId = process.env['GITHUB_RUN_ID'];
+    if (runId) {
+      const runUrl = `${process.env['GITHUB_SERVER_URL']}/${process.env['GITHUB_REPOSITORY']}/actions/runs/${runId}`;
+      const payload = buildSlackPayload(summarizeLatestRun(history), { runUrl, reportUrl: `${runUrl}#artifacts` });
+      fs.mkdirSync(path.dirname(this.slackPayloadFile), { recursive: true });
+      fs.writeFileSync(this.slackPayloadFile, JSON.stringify(payload, null, 2) + '\n');
+    }
+
+    console.log(`[RunHistory] Recorded ${run.tests.length} test(s); ${history.runs.length} run(s) in ${path.relative(process.cwd(), this.historyFile)}`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Catalog sync command
+ *
+ * data/catalogData.ts is the collection registry the specs read (COLLECTIONS in
+ * data/productNavigationData.ts), so a sync clears the drift a check reports.
+ * The one exception is a target product that left its collection: the sync refuses
+ * to drop it, and the registry has to be edited by hand.
+ *
+ * Usage:
+ *   npm run catalog:sync                               # rewrite data/catalogData.ts from the store
+ *   npm run catalog:sync -- --collection <handle>     # also register a new collection
+ *   npm run catalog:sync -- --menu                     # also register every collection in the navigation snapshot
+ *   npm run catalog:sync -- --save-fixture <file>     # also save every response for offline runs
+ *   npm run catalog:check                              # report drift between committed data and the store
+ *   npm run catalog:check -- --fixture <file>         # same, against saved responses
+ */
+import { request } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../helpers/config';
+import { getStorageStatePath } from '../helpers/auth';
+import { COLLECTIONS } from '../data/productNavigationData';
+import { NAVIGATION_SNAPSHOT_PATH, readNavigationSnapshot } from '../helpers/navigation';
+import {
+  type CatalogFetcher,
+  createFixtureFetcher,
+  createRequestFetcher,
+  diffCatalog,
+  formatDrift,
+  getDroppedTargetProducts,
+  getMenuCollectionHandles,
+  renderCatalogModule,
+  syncCatalog,
+} from '../helpers/catalog';
+
+const OUTPUT_PATH = path.resolve(__dirname, '../data/catalogData.ts');
+const STORAGE_STATE_PATH = getStorageStatePath('chromium');
+
+function readOption(args: string[], name: string): string[] {
+  return args.flatMap((arg, index) => (arg === name && args[index + 1] ? [args[index + 1]] : []));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const checkMode = args.includes('--check');
+  const fixturePath = readOption(args, '--fixture')[0];
+  const saveFixturePath = readOption(args, '--save-fixture')[0];
+  const extraCollections = readOption(args, '--collection');
+
+  if (args.includes('--menu')) {
+    const menu = readNavigationSnapshot();
+    if (!menu) {
+      throw new Error(`[Catalog] No navigation snapshot at ${NAVIGATION_SNAPSHOT_PATH}; record it with npm run test:navigation:update`);
+    }
+    extraCollections.push(...getMenuCollectionHandles(menu));
+  }
+
+  const savedResponses: Record<string, unknown> = {};
+  let fetcher: CatalogFetcher;
+  let source: string;
+  let dispose = async () => {};
+
+  if (fixturePath) {
+    fetcher = createFixtureFetcher(JSON.parse(fs.readFileSync(fixturePath, 'utf-8')));
+    source = path.relative(process.cwd(), fixturePath);
+  } else {
+    // Reuse the saved session so password-protected stores serve JSON instead of the password page
+    const context = await request.newContext({
+      baseURL: config.storeUrl,
+      storageState: fs.existsSync(STORAGE_STATE_PATH) ? STORAGE_STATE_PATH : undefined,
+    });
+    dispose = () => context.dispose();
+    source = config.storeUrl;
+    fetcher = createRequestFetcher(context, (requestPath, body) => {
+      savedResponses[requestPath] = body;
+    });
+  }
+
+  try {
+    const snapshot = await syncCatalog(fetcher, COLLECTIONS, extraCollections);
+
+    if (saveFixturePath) {
+      fs.writeFileSync(saveFixturePath, JSON.stringify(savedResponses, null, 2) + '\n');
+      console.log(`[Catalog] Saved ${Object.keys(savedResponses).length} responses to ${saveFixturePath}`);
+    }
+
+    if (checkMode) {
+      const drifts = diffCatalog(COLLECTIONS, snapshot);
+      console.log(formatDrift(drifts));
+      process.exitCode = drifts.length > 0 ? 1 : 0;
+      return;
+    }
+
+    const dropped = getDroppedTargetProducts(diffCatalog(COLLECTIONS, snapshot));
+    if (dropped.length > 0) {
+      throw new Error(
+        `[Catalog] Refusing to drop ${dropped.length} registered target product(s); ` +
+          `register a new target product in ${path.relative(process.cwd(), OUTPUT_PATH)} (and TARGET_PRODUCT if it was that one) first:\n${formatDrift(dropped)}`
+      );
+    }
+
+    fs.writeFileSync(OUTPUT_PATH, renderCatalogModule(snapshot, source));
+    console.log(`[Catalog] Wrote ${snapshot.collections.length} collection(s) to ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+  } finally {
+    await dispose();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+});
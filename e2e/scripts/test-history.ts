@@ -0,0 +1,73 @@
+/**
+ * Test history command
+ *
+ * Usage:
+ *   npm run test:history -- PN-09                        # every recorded run of PN-09
+ *   npm run test:history -- PN-09 --project chromium     # only in one project
+ *   npm run test:history -- --flaky                      # flakiest tests over the recorded runs
+ *   npm run test:history -- --third-party                # flakiness and duration per third-party profile
+ *   npm run test:history -- PN-09 --history <file>       # read another history store (e.g. a CI artifact)
+ */
+import * as fs from 'fs';
+import {
+  RUN_HISTORY_PATH,
+  compareThirdPartyProfiles,
+  computeFlakiness,
+  formatTestHistory,
+  readRunHistory,
+} from '../helpers/runHistory';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const historyPath = readOption(args, '--history') ?? RUN_HISTORY_PATH;
+  const project = readOption(args, '--project');
+  const testId = args.find((arg, index) => !arg.startsWith('--') && !['--history', '--project'].includes(args[index - 1]));
+
+  if (!fs.existsSync(historyPath)) {
+    throw new Error(`[RunHistory] No history at ${historyPath}; run the tests first`);
+  }
+  const history = readRunHistory(historyPath);
+
+  if (args.includes('--flaky')) {
+    const stats = computeFlakiness(history);
+    console.log(
+      stats.length > 0
+        ? stats.map((stat) => `${Math.round(stat.flakinessRate * 100)}%`.padStart(4) + `  ${stat.key} (${stat.flaky}/${stat.runs} runs)`).join('\n')
+        : `No flaky tests in ${history.runs.length} run(s)`
+    );
+    return;
+  }
+
+  if (args.includes('--third-party')) {
+    const impacts = compareThirdPartyProfiles(history);
+    console.log(
+      impacts.length > 0
+        ? impacts
+            .map(
+              (impact) =>
+                `${impact.profile.padEnd(6)}  ${impact.runs} test run(s), ${Math.round(impact.flakinessRate * 100)}% flaky, ` +
+                `${impact.failed} failed, ${(impact.averageDuration / 1000).toFixed(1)}s average`
+            )
+            .join('\n')
+        : `No third-party profiles recorded in ${history.runs.length} run(s)`
+    );
+    return;
+  }
+
+  if (!testId || !/^[A-Z]{2,3}-\d+$/.test(testId)) {
+    throw new Error('Usage: npm run test:history -- <test ID, e.g. PN-09> [--project <name>]');
+  }
+  console.log(formatTestHistory(history, testId, project));
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+}
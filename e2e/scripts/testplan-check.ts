@@ -0,0 +1,38 @@
+/**
+ * Test plan traceability check
+ *
+ * Usage:
+ *   npm run testplan:check                      # report gaps between test plans and specs
+ *   npm run testplan:check -- --matrix <file>   # also write the coverage matrix as HTML
+ */
+import * as fs from 'fs';
+import {
+  checkTraceability,
+  formatTraceabilityReport,
+  hasTraceabilityGaps,
+  loadTraceabilitySources,
+  renderCoverageMatrix,
+} from '../helpers/traceability';
+
+function main() {
+  const args = process.argv.slice(2);
+  const matrixIndex = args.indexOf('--matrix');
+  const matrixPath = matrixIndex !== -1 ? args[matrixIndex + 1] : undefined;
+
+  const { plans, specs } = loadTraceabilitySources();
+  const report = checkTraceability(plans, specs);
+  console.log(formatTraceabilityReport(report));
+
+  if (matrixPath) {
+    fs.writeFileSync(matrixPath, renderCoverageMatrix(report) + '\n');
+    console.log(`[Traceability] Wrote the coverage matrix to ${matrixPath}`);
+  }
+  process.exitCode = hasTraceabilityGaps(report) ? 1 : 0;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(2);
+}
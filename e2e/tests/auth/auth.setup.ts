@@ -0,0 +1,32 @@
+import { test as setup } from '@playwright/test';
+import { config, requireStorePassword } from '../../helpers/config';
+import { getStorageStatePath, verifySession } from '../../helpers/auth';
+import { PasswordPage } from '../../pages/PasswordPage';
+
+/**
+ * Auth setup - runs once per browser project before its tests
+ * Logs in with that project's browser and device, verifies the session and saves it
+ * to .auth/<project>.json, which the matching browser project loads as its storage state
+ */
+setup('Log in to the store', async ({ page }, testInfo) => {
+  setup.skip(config.replay, 'Replayed responses do not need a store session');
+  // Fails before the browser opens the store when STORE_PASSWORD is unset
+  requireStorePassword();
+
+  const projectName = testInfo.project.name.replace(/^setup-/, '');
+  const passwordPage = new PasswordPage(page);
+
+  const passwordProtected = await setup.step(`Log in to ${config.storeUrl}`, async () => {
+    return passwordPage.navigateWithPasswordCheck('/');
+  });
+
+  await setup.step('Verify the password cookie and theme survive a reload', async () => {
+    // Without the preview parameter the theme can only come from the session
+    await page.goto('/');
+    await verifySession(page, { passwordProtected });
+  });
+
+  await setup.step(`Save the session for ${projectName}`, async () => {
+    await page.context().storageState({ path: getStorageStatePath(projectName) });
+  });
+});
@@ -0,0 +1,70 @@
+import { test, expect } from '../../fixtures';
+import { config } from '../../helpers/config';
+import { AuthError, PASSWORD_COOKIE, verifySession } from '../../helpers/auth';
+import { getCollection } from '../../data/productNavigationData';
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+test.describe('Authentication - Store Session', () => {
+  test.skip(config.replay, 'Replayed responses do not need a store session');
+
+  test('AU-01: Saved Session Carries the Password Cookie and Theme', async ({ page, passwordPage }) => {
+    await test.step('Navigate to homepage at / without logging in', async () => {
+      await page.goto('/');
+      expect(await passwordPage.isPasswordPage()).toBe(false);
+    });
+
+    await test.step(`Verify the session has the ${PASSWORD_COOKIE} cookie and the configured theme`, async () => {
+      const passwordProtected = (await page.context().cookies()).some((cookie) => cookie.name === PASSWORD_COOKIE);
+      await verifySession(page, { passwordProtected });
+    });
+  });
+
+  test('AU-02: Log In Again When the Session Expires Mid-Run', async ({ page, context, collectionPage }) => {
+    await test.step(`Expire the session by deleting the ${PASSWORD_COOKIE} cookie`, async () => {
+      await page.goto('/');
+      const cookies = await context.cookies();
+      test.skip(!cookies.some((cookie) => cookie.name === PASSWORD_COOKIE), 'The store is not password protected');
+      await context.clearCookies({ name: PASSWORD_COOKIE });
+    });
+
+    await test.step(`Navigate to ${GLASS_BOTTLES_JARS_COLLECTION.url} and wait for the collection`, async () => {
+      await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+      // Auto-waiting assertions and actions run the re-login handler when the password page is showing
+      await expect(collectionPage.getCollectionHeading(GLASS_BOTTLES_JARS_COLLECTION.name)).toBeVisible();
+    });
+
+    await test.step('Verify the test is back on the collection with a new session', async () => {
+      await expect(page).toHaveURL(new RegExp(GLASS_BOTTLES_JARS_COLLECTION.url));
+      expect((await context.cookies()).some((cookie) => cookie.name === PASSWORD_COOKIE)).toBe(true);
+    });
+  });
+});
+
+test.describe('Authentication - Password Page', () => {
+  test.skip(config.replay, 'Replayed responses do not need a store session');
+  // Start logged out and keep the password page on screen
+  test.use({ storageState: { cookies: [], origins: [] }, autoRelogin: false });
+
+  test('AU-03: Wrong Password Fails With a Clear Error', async ({ passwordPage }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await passwordPage.goto('/');
+      test.skip(!(await passwordPage.isPasswordPage()), 'The store is not password protected');
+    });
+
+    await test.step('Submit a wrong password and verify the AuthError', async () => {
+      const error = await passwordPage.enterPassword('not-the-store-password').catch((thrown: unknown) => thrown);
+      expect(error).toBeInstanceOf(AuthError);
+      expect((error as AuthError).message).toContain('The store rejected the password');
+      expect((error as AuthError).message).not.toContain('not-the-store-password');
+    });
+  });
+
+  test('AU-04: Correct Password Opens the Store', async ({ passwordPage, page }) => {
+    await test.step('Log in from the password page', async () => {
+      const passwordProtected = await passwordPage.navigateWithPasswordCheck('/');
+      await verifySession(page, { passwordProtected });
+      expect(await passwordPage.isPasswordPage()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect } from '../../fixtures';
+import { config } from '../../helpers/config';
+import { CART_PRODUCT, CART_QUANTITIES } from '../../data/cartData';
+import type { ProductVariant } from '../../pages/ProductPage';
+
+test.describe('Cart - Add, Update and Remove Line Items', () => {
+  // Recorded responses are stateless, so cart mutations can't be replayed
+  test.skip(config.replay, 'Cart flows need the live store');
+
+  test('CT-01: Add Product to Cart from Product Page', async ({ page, productPage, cartPage }) => {
+    await test.step('Verify the cart starts empty', async () => {
+      const cart = await cartPage.getCart();
+      expect(cart.item_count).toBe(0);
+    });
+
+    await test.step(`Navigate to ${CART_PRODUCT.url}`, async () => {
+      await page.goto(CART_PRODUCT.url);
+      await expect(productPage.addToCartButton).toBeVisible();
+    });
+
+    await test.step('Click "Add to cart" and verify the /cart/add.js response', async () => {
+      const lineItem = await productPage.addToCart();
+      expect(lineItem.handle).toBe(CART_PRODUCT.handle);
+      expect(lineItem.sku).toBe(CART_PRODUCT.sku);
+      expect(lineItem.quantity).toBe(1);
+    });
+
+    await test.step('Verify /cart.js contains the product', async () => {
+      const cart = await cartPage.getCart();
+      expect(cart.item_count).toBe(1);
+      expect(cart.items.map((item) => item.sku)).toEqual([CART_PRODUCT.sku]);
+    });
+  });
+
+  test('CT-02: Add Case Pack Variant with Quantity', async ({ page, productPage, cartPage }) => {
+    const { casePack } = CART_PRODUCT;
+    let variant: ProductVariant | undefined;
+
+    await test.step(`Navigate to ${CART_PRODUCT.url}`, async () => {
+      await page.goto(CART_PRODUCT.url);
+    });
+
+    // The case pack comes from the catalog sync; a single-variant product adds its only variant
+    await test.step(casePack ? `Select the "${casePack.value}" case pack` : 'Select the only variant', async () => {
+      const variants = await productPage.getVariants();
+      const optionIndex = casePack
+        ? (await productPage.getProductOptions()).findIndex((option) => option.name === casePack.optionName)
+        : -1;
+      variant = casePack ? variants.find((candidate) => candidate.options[optionIndex] === casePack.value) : variants[0];
+      expect(variant, `No variant for ${casePack ? `${casePack.optionName}: ${casePack.value}` : CART_PRODUCT.url}`).toBeDefined();
+      if (!variant) return;
+      await productPage.selectVariant(variant);
+    });
+
+    await test.step(`Add ${CART_QUANTITIES.initial} cases to the cart`, async () => {
+      const lineItem = await productPage.addToCart(CART_QUANTITIES.initial);
+      expect(lineItem.quantity).toBe(CART_QUANTITIES.initial);
+      expect(lineItem.variant_id).toBe(variant?.id);
+    });
+
+    await test.step('Verify /cart.js reflects the variant and quantity', async () => {
+      const cart = await cartPage.getCart();
+      expect(cart.item_count).toBe(CART_QUANTITIES.initial);
+      expect(cart.items[0]?.variant_id).toBe(variant?.id);
+    });
+  });
+
+  test('CT-03: Update Line Item Quantity in Cart', async ({ page, productPage, cartPage }) => {
+    await test.step('Add the product to the cart', async () => {
+      await page.goto(CART_PRODUCT.url);
+      await productPage.addToCart(CART_QUANTITIES.initial);
+    });
+
+    await test.step('Open the /cart page', async () => {
+      await cartPage.open();
+      await expect(cartPage.getCartItemByName(CART_PRODUCT.name)).toBeVisible();
+    });
+
+    await test.step(`Change the quantity to ${CART_QUANTITIES.updated}`, async () => {
+      const cart = await cartPage.updateQuantity(CART_PRODUCT.name, CART_QUANTITIES.updated);
+      expect(cart.items[0]?.quantity).toBe(CART_QUANTITIES.updated);
+    });
+
+    await test.step('Verify /cart.js reflects the new quantity', async () => {
+      const cart = await cartPage.getCart();
+      expect(cart.item_count).toBe(CART_QUANTITIES.updated);
+    });
+  });
+
+  test('CT-04: Remove Line Item from Cart', async ({ page, productPage, cartPage }) => {
+    await test.step('Add the product to the cart', async () => {
+      await page.goto(CART_PRODUCT.url);
+      await productPage.addToCart();
+    });
+
+    await test.step('Open the /cart page', async () => {
+      await cartPage.open();
+      await expect(cartPage.getCartItemByName(CART_PRODUCT.name)).toBeVisible();
+    });
+
+    await test.step('Remove the product', async () => {
+      const cart = await cartPage.removeItem(CART_PRODUCT.name);
+      expect(cart.item_count).toBe(0);
+    });
+
+    await test.step('Verify the cart is empty', async () => {
+      await expect(cartPage.emptyCartMessage).toBeVisible();
+      const cart = await cartPage.getCart();
+      expect(cart.items).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { test, expect } from '../../fixtures';
+import type { Page } from '@playwright/test';
+import type { GridProduct } from '../../pages/CollectionPage';
+import { ProductPage } from '../../pages/ProductPage';
+import { getCollection, FILTER_OPTIONS } from '../../data/productNavigationData';
+import { normalizeSpecificationKey } from '../../helpers/specifications';
+
+/**
+ * Opens every product and checks its Product Details show each facet value
+ * @param products - The filtered products from every results page
+ * @param expected - Map of specification name to the value every product must show
+ */
+async function expectProductsToMatchSpecifications(
+  page: Page,
+  products: GridProduct[],
+  expected: Record<string, string>
+): Promise<void> {
+  expect(products.length).toBeGreaterThan(0);
+
+  const detailPage = await page.context().newPage();
+  const productPage = new ProductPage(detailPage);
+  for (const product of products) {
+    await detailPage.goto(product.url);
+    const specifications = await productPage.getSpecifications();
+    for (const [specification, value] of Object.entries(expected)) {
+      expect(specifications[normalizeSpecificationKey(specification)], `${product.name} (page ${product.pageNumber})`).toBe(value);
+    }
+  }
+  await detailPage.close();
+}
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+test.describe('Collection Filters - Facets and Price Range', () => {
+  test.beforeEach(async ({ page, collectionPage }) => {
+    await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+    await collectionPage.waitForCollectionLoad();
+  });
+
+  test('FL-01: Apply Material Filter', async ({ page, collectionPage }) => {
+    const { facet, option, specification } = FILTER_OPTIONS.material;
+    let expectedCount = 0;
+
+    await test.step(`Read the "${option}" option count in the ${facet} facet`, async () => {
+      const options = await collectionPage.getFacetOptions(facet);
+      const match = options.find((facetOption) => facetOption.label === option);
+      if (!match) {
+        throw new Error(`${facet} facet should offer "${option}"; found ${options.map((facetOption) => facetOption.label).join(', ')}`);
+      }
+      expectedCount = match.count;
+    });
+
+    await test.step(`Apply ${facet}: ${option}`, async () => {
+      await collectionPage.applyFilter(facet, option);
+    });
+
+    await test.step('Verify URL filter parameter, chip and product count', async () => {
+      expect(Object.values(collectionPage.getFilterParams()).flat()).toContain(option);
+      expect(await collectionPage.getActiveFilters()).toContainEqual(expect.stringContaining(option));
+      expect(await collectionPage.getDisplayedProductCount()).toBe(expectedCount);
+    });
+
+    await test.step(`Verify every product on every page shows ${specification}: ${option}`, async () => {
+      const crawl = await collectionPage.crawlCollection();
+      await expectProductsToMatchSpecifications(page, crawl.products, { [specification]: option });
+    });
+  });
+
+  test('FL-02: Combine Capacity and Color Filters', async ({ page, collectionPage }) => {
+    const { capacity, color } = FILTER_OPTIONS;
+
+    await test.step(`Apply ${capacity.facet}: ${capacity.option}`, async () => {
+      await collectionPage.applyFilter(capacity.facet, capacity.option);
+    });
+
+    await test.step(`Apply ${color.facet}: ${color.option}`, async () => {
+      await collectionPage.applyFilter(color.facet, color.option);
+    });
+
+    await test.step('Verify both filters are active', async () => {
+      const filterValues = Object.values(collectionPage.getFilterParams()).flat();
+      expect(filterValues).toEqual(expect.arrayContaining([capacity.option, color.option]));
+      expect(await collectionPage.getActiveFilters()).toHaveLength(2);
+    });
+
+    await test.step('Verify the product count and every product on every page match both facets', async () => {
+      // The grid only shows one page, so count and check the results across all of them
+      const crawl = await collectionPage.crawlCollection();
+      expect(crawl.products).toHaveLength(crawl.displayedCount);
+      await expectProductsToMatchSpecifications(page, crawl.products, {
+        [capacity.specification]: capacity.option,
+        [color.specification]: color.option,
+      });
+    });
+  });
+
+  test('FL-03: Remove a Filter Chip', async ({ collectionPage }) => {
+    const { material } = FILTER_OPTIONS;
+
+    await test.step(`Apply ${material.facet}: ${material.option}`, async () => {
+      await collectionPage.applyFilter(material.facet, material.option);
+      await expect(collectionPage.activeFilterChips).toHaveCount(1);
+    });
+
+    await test.step('Remove the filter chip', async () => {
+      await collectionPage.removeFilter(material.option);
+    });
+
+    await test.step('Verify the collection is unfiltered again', async () => {
+      expect(collectionPage.getFilterParams()).toEqual({});
+      await expect(collectionPage.activeFilterChips).toHaveCount(0);
+      expect(await collectionPage.getDisplayedProductCount()).toBe(GLASS_BOTTLES_JARS_COLLECTION.productCount);
+    });
+  });
+
+  test('FL-04: Clear All Filters', async ({ collectionPage }) => {
+    const { capacity, material } = FILTER_OPTIONS;
+
+    await test.step('Apply two filters', async () => {
+      await collectionPage.applyFilter(material.facet, material.option);
+      await collectionPage.applyFilter(capacity.facet, capacity.option);
+    });
+
+    await test.step('Click "Remove all"', async () => {
+      await collectionPage.clearFilters();
+    });
+
+    await test.step('Verify no filters remain', async () => {
+      expect(collectionPage.getFilterParams()).toEqual({});
+      expect(await collectionPage.getActiveFilters()).toEqual([]);
+      expect(await collectionPage.getDisplayedProductCount()).toBe(GLASS_BOTTLES_JARS_COLLECTION.productCount);
+    });
+  });
+
+  test('FL-05: Filter by Price Range', async ({ collectionPage }) => {
+    const { min, max } = FILTER_OPTIONS.priceRange;
+
+    await test.step(`Set price range ${min} - ${max}`, async () => {
+      await collectionPage.setPriceRange(min, max);
+    });
+
+    await test.step('Verify price parameters in URL', async () => {
+      const params = collectionPage.getFilterParams();
+      expect(Number(params['filter.v.price.gte']?.[0])).toBe(min);
+      expect(Number(params['filter.v.price.lte']?.[0])).toBe(max);
+    });
+
+    await test.step('Verify every product price is within range', async () => {
+      const cards = await collectionPage.getProductCards();
+      expect(cards.length).toBeGreaterThan(0);
+      for (const card of cards) {
+        expect(card.price, card.name).not.toBeNull();
+        expect(card.price!, card.name).toBeGreaterThanOrEqual(min);
+        expect(card.price!, card.name).toBeLessThanOrEqual(max);
+      }
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '../../fixtures';
+import type { CollectionCrawl } from '../../pages/CollectionPage';
+import { getCollection } from '../../data/productNavigationData';
+import { createRequestFetcher, fetchCollectionProducts, handleFromUrl } from '../../helpers/catalog';
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+/**
+ * Checks a crawl is complete: counts agree, no duplicates, and the first and last pages' controls are correct
+ */
+async function expectCompleteCrawl(crawl: CollectionCrawl, catalogHandles: string[]) {
+  await test.step('Verify the product total matches the "N products" count', async () => {
+    expect(crawl.products).toHaveLength(crawl.displayedCount);
+    expect(crawl.displayedCount).toBe(GLASS_BOTTLES_JARS_COLLECTION.productCount);
+  });
+
+  await test.step('Verify no product appears twice or is missing', async () => {
+    expect(crawl.duplicateHandles, 'Products listed on more than one page').toEqual([]);
+    const crawledHandles = new Set(crawl.products.map((product) => product.handle));
+    expect(catalogHandles.filter((handle) => !crawledHandles.has(handle)), 'Products missing from every page').toEqual([]);
+  });
+
+  await test.step('Verify every product has a name, SKU and stock status', async () => {
+    const incomplete = crawl.products.filter((product) => !product.name || !product.sku || !product.stockStatus);
+    expect(incomplete.map((product) => `#${product.position} ${product.handle}`)).toEqual([]);
+  });
+
+  await test.step('Verify Previous/Next and the active page on the first and last pages', async () => {
+    const firstPage = crawl.pages[0];
+    const lastPage = crawl.pages[crawl.pages.length - 1];
+    expect(crawl.pages.length).toBeGreaterThan(1);
+
+    expect(firstPage).toMatchObject({ activePage: 1, hasPrevious: false, hasNext: true });
+    expect(lastPage).toMatchObject({ activePage: crawl.pages.length, hasPrevious: true, hasNext: false });
+    expect(crawl.pages.map((page) => page.activePage)).toEqual(crawl.pages.map((page) => page.pageNumber));
+  });
+}
+
+test.describe('Collection Pagination - Full Crawl', () => {
+  let catalogHandles: string[];
+
+  test.beforeEach(async ({ page }) => {
+    // products.json lists every product in the collection regardless of pagination
+    const products = await fetchCollectionProducts(
+      createRequestFetcher(page.request),
+      handleFromUrl(GLASS_BOTTLES_JARS_COLLECTION.url)
+    );
+    catalogHandles = products.map((product) => product.handle);
+    await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+  });
+
+  test('PG-01: Crawl Every Page Using "Next"', async ({ collectionPage }) => {
+    const crawl = await test.step('Follow "Next" until the last page', () =>
+      collectionPage.crawlCollection({ via: 'next' }));
+
+    await expectCompleteCrawl(crawl, catalogHandles);
+  });
+
+  test('PG-02: Crawl Every Page Using Numbered Links', async ({ collectionPage }) => {
+    const crawl = await test.step('Click each numbered page link in turn', () =>
+      collectionPage.crawlCollection({ via: 'numbers' }));
+
+    await expectCompleteCrawl(crawl, catalogHandles);
+  });
+});
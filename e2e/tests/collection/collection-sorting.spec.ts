@@ -0,0 +1,127 @@
+import { test, expect } from '../../fixtures';
+import type { Page } from '@playwright/test';
+import type { CollectionPage, GridProduct } from '../../pages/CollectionPage';
+import { getCollection, SORT_OPTIONS } from '../../data/productNavigationData';
+import { compareTitles, findOrderViolations } from '../../helpers/sorting';
+import { createRequestFetcher, fetchCollectionProducts, handleFromUrl } from '../../helpers/catalog';
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+/**
+ * A product with the numeric value it is sorted by (price or creation time)
+ */
+type KeyedProduct = GridProduct & { key: number };
+
+/**
+ * Asserts the products are in the expected order and lists every misplaced pair on failure
+ */
+function expectOrder<T extends GridProduct>(products: T[], compare: (a: T, b: T) => number, describe: (product: T) => string) {
+  const violations = findOrderViolations(products, compare);
+  expect(
+    violations.map(({ previous, current }) => `#${previous.position} ${describe(previous)} before #${current.position} ${describe(current)}`),
+    'Products out of order'
+  ).toEqual([]);
+}
+
+/**
+ * Opens the collection with a sort option and reads every page
+ */
+async function readSortedCollection(page: Page, collectionPage: CollectionPage, sortOption: string): Promise<GridProduct[]> {
+  await page.goto(`${GLASS_BOTTLES_JARS_COLLECTION.url}?sort_by=${sortOption}`);
+  await expect(collectionPage.sortDropdown).toHaveValue(sortOption);
+  const products = await collectionPage.getAllProductCards();
+  expect(products).toHaveLength(GLASS_BOTTLES_JARS_COLLECTION.productCount);
+  return products;
+}
+
+/**
+ * Attaches the value each product is sorted by and fails listing the products without one
+ */
+function withSortKeys(products: GridProduct[], readKey: (product: GridProduct) => number | null | undefined, keyName: string): KeyedProduct[] {
+  const keyed = products.map((product) => ({ ...product, key: readKey(product) ?? NaN }));
+  expect(keyed.filter((product) => Number.isNaN(product.key)).map((product) => product.name), `Products without a ${keyName}`).toEqual([]);
+  return keyed;
+}
+
+/**
+ * Reads the collection's products from products.json, in the collection's default order
+ * Creation dates aren't shown on product cards, so date sorting is checked against this data
+ */
+async function readCatalogProducts(page: Page) {
+  return fetchCollectionProducts(createRequestFetcher(page.request), handleFromUrl(GLASS_BOTTLES_JARS_COLLECTION.url));
+}
+
+test.describe('Collection Sorting - Order Across All Pages', () => {
+  test('SO-01: Alphabetically, A-Z', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by title-ascending', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.titleAscending));
+
+    await test.step('Verify titles are in ascending order', async () => {
+      expectOrder(products, (a, b) => compareTitles(a.name, b.name), (product) => `"${product.name}"`);
+    });
+  });
+
+  test('SO-02: Alphabetically, Z-A', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by title-descending', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.titleDescending));
+
+    await test.step('Verify titles are in descending order', async () => {
+      expectOrder(products, (a, b) => compareTitles(b.name, a.name), (product) => `"${product.name}"`);
+    });
+  });
+
+  test('SO-03: Price, Low to High', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by price-ascending', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.priceAscending));
+
+    await test.step('Verify prices are in ascending order', async () => {
+      const priced = withSortKeys(products, (product) => product.price, 'price');
+      expectOrder(priced, (a, b) => a.key - b.key, (product) => `${product.name} ($${product.key})`);
+    });
+  });
+
+  test('SO-04: Price, High to Low', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by price-descending', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.priceDescending));
+
+    await test.step('Verify prices are in descending order', async () => {
+      const priced = withSortKeys(products, (product) => product.price, 'price');
+      expectOrder(priced, (a, b) => b.key - a.key, (product) => `${product.name} ($${product.key})`);
+    });
+  });
+
+  test('SO-05: Date, Old to New', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by created-ascending', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.createdAscending));
+
+    await test.step('Verify creation dates are in ascending order', async () => {
+      const createdAt = new Map((await readCatalogProducts(page)).map((product) => [product.handle, product.created_at]));
+      const dated = withSortKeys(products, (product) => Date.parse(createdAt.get(product.handle) ?? ''), 'creation date');
+      expectOrder(dated, (a, b) => a.key - b.key, (product) => `${product.name} (${new Date(product.key).toISOString()})`);
+    });
+  });
+
+  test('SO-06: Date, New to Old', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by created-descending', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.createdDescending));
+
+    await test.step('Verify creation dates are in descending order', async () => {
+      const createdAt = new Map((await readCatalogProducts(page)).map((product) => [product.handle, product.created_at]));
+      const dated = withSortKeys(products, (product) => Date.parse(createdAt.get(product.handle) ?? ''), 'creation date');
+      expectOrder(dated, (a, b) => b.key - a.key, (product) => `${product.name} (${new Date(product.key).toISOString()})`);
+    });
+  });
+
+  test('SO-07: Best Selling', async ({ page, collectionPage }) => {
+    const products = await test.step('Read every page sorted by best-selling', () =>
+      readSortedCollection(page, collectionPage, SORT_OPTIONS.bestSelling));
+
+    await test.step('Verify the sort is applied and every product is listed once', async () => {
+      // Sales figures aren't public, so the order itself can't be checked independently
+      expect(new URL(page.url()).searchParams.get('sort_by')).toBe(SORT_OPTIONS.bestSelling);
+      await expect(collectionPage.sortDropdown).toHaveValue(SORT_OPTIONS.bestSelling);
+      const catalogHandles = (await readCatalogProducts(page)).map((product) => product.handle);
+      expect(products.map((product) => product.handle).sort()).toEqual(catalogHandles.sort());
+    });
+  });
+});
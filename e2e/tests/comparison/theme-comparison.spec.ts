@@ -0,0 +1,105 @@
+import { test, expect } from '../../fixtures';
+import { config } from '../../helpers/config';
+import { describeThemeMismatch, readRenderedTheme } from '../../helpers/auth';
+import { type PageState, recordThemeComparison, themePath } from '../../helpers/themeComparison';
+import { COLLECTIONS, type CollectionData } from '../../data/productNavigationData';
+import type { NavigationPage } from '../../pages/NavigationPage';
+import type { CollectionPage } from '../../pages/CollectionPage';
+import type { ProductPage } from '../../pages/ProductPage';
+
+type JourneyPages = {
+  navigationPage: NavigationPage;
+  collectionPage: CollectionPage;
+  productPage: ProductPage;
+};
+
+/**
+ * Runs the home -> collection -> product journey on one theme and captures the state of each step
+ * Only the first URL carries the theme; menu and card clicks stay on it through the preview session,
+ * so the rendered theme is checked right after that first navigation
+ */
+async function captureJourney(
+  { navigationPage, collectionPage, productPage }: JourneyPages,
+  collection: CollectionData,
+  themeId: string | null
+): Promise<PageState[]> {
+  const states: PageState[] = [];
+  const page = navigationPage.page;
+
+  await navigationPage.goto(themePath('/', themeId));
+  const theme = await readRenderedTheme(page);
+  expect(theme, 'The storefront should expose Shopify.theme').not.toBeNull();
+  expect(describeThemeMismatch(theme, themeId)).toBeNull();
+  await navigationPage.expandAllMenus();
+  states.push({
+    name: 'home',
+    path: new URL(page.url()).pathname,
+    navigation: await navigationPage.getNavigationTree(),
+    ...(await navigationPage.getPageOutline()),
+  });
+  await page.keyboard.press('Escape');
+
+  await navigationPage.navigateToCollection(collection.name);
+  await collectionPage.waitForCollectionLoad();
+  states.push({
+    name: `collection: ${collection.name}`,
+    path: new URL(page.url()).pathname,
+    collection: {
+      displayedCount: await collectionPage.getDisplayedProductCount(),
+      handles: (await collectionPage.getProductCards()).map((card) => card.handle),
+    },
+    ...(await collectionPage.getPageOutline()),
+  });
+
+  if (collection.targetProduct) {
+    await collectionPage.clickProductByName(collection.targetProduct.name);
+    await productPage.productTitle.waitFor({ state: 'visible' });
+    const specifications = await productPage.getSpecifications();
+    states.push({
+      name: `product: ${collection.targetProduct.name}`,
+      path: new URL(page.url()).pathname,
+      product: {
+        title: (await productPage.productTitle.innerText()).trim(),
+        specifications: Object.entries(specifications).map(([key, value]) => `${key}: ${value}`),
+      },
+      ...(await productPage.getPageOutline()),
+    });
+  }
+
+  return states;
+}
+
+test.describe('Theme Comparison - Published vs Preview Theme', () => {
+  test.skip(!config.themeId, 'Needs a preview theme: run with TEST_ENV=us-preview and TEST_THEME_ID');
+  test.skip(config.replay, 'Comparison runs need both themes from the live store');
+
+  // Narrowed once here; the skip above covers runs without a preview theme
+  const themeId = config.themeId ?? '';
+
+  for (const collection of COLLECTIONS) {
+    test(`TC-01: Compare Home, "${collection.name}" and Its Product Across Themes`, async ({
+      navigationPage,
+      collectionPage,
+      productPage,
+    }) => {
+      test.setTimeout(120000);
+      const pages = { navigationPage, collectionPage, productPage };
+      let live: PageState[] = [];
+      let preview: PageState[] = [];
+
+      await test.step('Run the journey on the published theme', async () => {
+        live = await captureJourney(pages, collection, null);
+      });
+
+      await test.step(`Run the journey on preview theme ${themeId}`, async () => {
+        preview = await captureJourney(pages, collection, themeId);
+      });
+
+      await test.step('Diff the captured states and attach the report', async () => {
+        // Differences are what the reviewer is looking for, so they are reported rather than failed on
+        await recordThemeComparison(live, preview, themeId);
+        expect(preview.map((state) => state.name)).toEqual(live.map((state) => state.name));
+      });
+    });
+  }
+});
@@ -0,0 +1,32 @@
+import { test, expect } from '../../fixtures';
+import { createRequestChecker, crawlSite, formatCrawlReport, type CrawlReport } from '../../helpers/crawler';
+import { STORE_CRAWL } from '../../data/crawlerData';
+
+/**
+ * Attaches the crawl report to the HTML report as text and JSON
+ */
+async function attachCrawlReport(report: CrawlReport): Promise<void> {
+  await test.info().attach('crawl-report', { body: formatCrawlReport(report), contentType: 'text/plain' });
+  await test.info().attach('crawl-report.json', { body: JSON.stringify(report, null, 2), contentType: 'application/json' });
+}
+
+test.describe('Link Crawler - Store', () => {
+  test('LC-04: Header, Footer, Collection and Product Pages Have No Broken Links or Images', async ({
+    page,
+    navigationPage,
+    browserName,
+  }) => {
+    // One crawl in Chromium's desktop layout: the mega menu is expanded, and the menu drawer's links are
+    // collected from the DOM, where the drawer sits at every viewport
+    test.skip(browserName !== 'chromium', 'The store crawl runs in Chromium only');
+    test.setTimeout(15 * 60 * 1000);
+
+    const report = await crawlSite((url) => navigationPage.scanPage(url), createRequestChecker(page.request), STORE_CRAWL);
+    await attachCrawlReport(report);
+
+    for (const result of report.redirected) {
+      test.info().annotations.push({ type: 'redirect', description: `${result.url} -> ${result.finalUrl}` });
+    }
+    expect(report.broken, formatCrawlReport(report)).toEqual([]);
+  });
+});
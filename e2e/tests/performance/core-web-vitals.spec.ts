@@ -0,0 +1,63 @@
+import { test, expect } from '../../fixtures';
+import { getCollection, TARGET_PRODUCT } from '../../data/productNavigationData';
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+// Every navigation in these tests is checked against data/performance-budgets/<template>.json
+test.use({ perfBudgetMode: 'enforce' });
+
+test.describe('Performance - Core Web Vitals Budgets', () => {
+  test('PF-01: Homepage Within Budget', async ({ navigationPage }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await navigationPage.goto('/');
+      await expect(navigationPage.page).toHaveURL('/');
+    });
+
+    await test.step('Open the Products menu to measure interaction latency', async () => {
+      await navigationPage.openProductsMenu();
+    });
+  });
+
+  test('PF-02: Collection Page Within Budget', async ({ collectionPage }) => {
+    await test.step(`Navigate to ${GLASS_BOTTLES_JARS_COLLECTION.url}`, async () => {
+      await collectionPage.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+      await collectionPage.waitForCollectionLoad();
+    });
+
+    await test.step('Scroll through the product grid to surface layout shifts', async () => {
+      // The last card rather than the pagination, which single-page collections don't render
+      await collectionPage.productGrid.last().scrollIntoViewIfNeeded();
+    });
+  });
+
+  test('PF-03: Product Page Within Budget', async ({ productPage }) => {
+    await test.step(`Navigate to ${TARGET_PRODUCT.url}`, async () => {
+      await productPage.goto(TARGET_PRODUCT.url);
+      await expect(productPage.galleryViewer).toBeVisible();
+    });
+
+    await test.step('Expand Product Details to measure interaction latency', async () => {
+      await productPage.expandProductDetails();
+    });
+  });
+
+  test('PF-04: Home to Collection to Product Journey Within Budget', async ({
+    navigationPage,
+    collectionPage,
+    productPage,
+  }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await navigationPage.goto('/');
+    });
+
+    await test.step(`Open "${GLASS_BOTTLES_JARS_COLLECTION.name}" from the Products menu`, async () => {
+      await navigationPage.navigateToCollection(GLASS_BOTTLES_JARS_COLLECTION.name);
+      await collectionPage.waitForCollectionLoad();
+    });
+
+    await test.step(`Open "${TARGET_PRODUCT.name}"`, async () => {
+      await collectionPage.clickProductByName(TARGET_PRODUCT.name);
+      await expect(productPage.getProductTitleByName(TARGET_PRODUCT.name)).toBeVisible();
+    });
+  });
+});
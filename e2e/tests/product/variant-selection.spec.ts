@@ -0,0 +1,87 @@
+import { test, expect } from '../../fixtures';
+import { config } from '../../helpers/config';
+import { isQuantityAllowed, roundToQuantityRule } from '../../helpers/quantityRule';
+import { CART_PRODUCT } from '../../data/cartData';
+
+test.describe('Product Page - Variants, Case Packs and Quantity', () => {
+  // Variants are read from /products/<handle>.js, which replay mode doesn't serve
+  test.skip(config.replay, 'Variant data needs the live store');
+
+  test.beforeEach(async ({ page, productPage }) => {
+    await page.goto(CART_PRODUCT.url);
+    await expect(productPage.addToCartButton).toBeVisible();
+  });
+
+  test('VS-01: List Variants and Case Pack Options', async ({ productPage }) => {
+    await test.step('Read the variants from /products/<handle>.js', async () => {
+      const variants = await productPage.getVariants();
+      expect(variants.length).toBeGreaterThan(0);
+      expect(variants.map((variant) => variant.sku)).toContain(CART_PRODUCT.sku);
+      expect(new Set(variants.map((variant) => variant.id)).size).toBe(variants.length);
+    });
+
+    await test.step('Verify the variant options match the catalog data', async () => {
+      // Single-variant products only have Shopify's 'Title' placeholder, which the catalog leaves out
+      const options = await productPage.getProductOptions();
+      expect(options.filter((option) => option.values.length > 1)).toEqual(CART_PRODUCT.variantOptions);
+    });
+  });
+
+  test('VS-02: Variant URL, SKU, Price and Availability Update Together', async ({ page, productPage }) => {
+    const variants = await productPage.getVariants();
+
+    for (const variant of variants) {
+      await test.step(`Select "${variant.title}" and verify the page shows it`, async () => {
+        const changed = await productPage.selectVariant(variant);
+
+        // The variant selected on load has no ?variant= until another one is picked
+        if (changed) {
+          expect(new URL(page.url()).searchParams.get('variant')).toBe(String(variant.id));
+        }
+        await expect
+          .poll(() => productPage.getSelectedVariantState())
+          .toMatchObject({
+            ...(changed ? { variantId: variant.id } : {}),
+            sku: variant.sku,
+            price: variant.price,
+            availability: variant.available ? 'In stock' : 'Out of stock',
+          });
+      });
+
+      await test.step(`Verify the unit price of "${variant.title}" matches the variant data`, async () => {
+        const { unitPrice } = await productPage.getSelectedVariantState();
+        expect(unitPrice && { amount: unitPrice.amount, per: unitPrice.per.replace(/\s+/g, '') }).toEqual(
+          variant.unitPrice && { amount: variant.unitPrice.amount, per: variant.unitPrice.per.replace(/\s+/g, '') }
+        );
+      });
+    }
+  });
+
+  test('VS-03: Quantity Input Follows the Variant Quantity Rule', async ({ productPage }) => {
+    const variants = await productPage.getVariants();
+    const variant = variants.find((candidate) => candidate.sku === CART_PRODUCT.sku);
+    expect(variant, `No variant with SKU ${CART_PRODUCT.sku}: ${variants.map((candidate) => candidate.sku).join(', ')}`).toBeDefined();
+    if (!variant) return;
+
+    await test.step(`Select the ${CART_PRODUCT.sku} variant`, async () => {
+      await productPage.selectVariant(variant);
+    });
+
+    const rule = await test.step('Verify the quantity input enforces the variant quantity rule', async () => {
+      const rule = await productPage.getQuantityRule();
+      expect(rule).toEqual(variant.quantityRule);
+      expect(await productPage.getQuantity()).toBe(rule.min);
+      return rule;
+    });
+
+    await test.step('Increase and decrease the quantity by one increment', async () => {
+      const increased = await productPage.increaseQuantity();
+      expect(increased).toBe(roundToQuantityRule(rule.min + rule.increment, rule));
+      expect(isQuantityAllowed(increased, rule)).toBe(true);
+
+      expect(await productPage.decreaseQuantity()).toBe(rule.min);
+      // The minimum is also the floor of the - button
+      expect(await productPage.decreaseQuantity()).toBe(rule.min);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { test, expect } from '../../fixtures';
+import { TARGET_PRODUCT } from '../../data/productNavigationData';
+
+test.describe('Product Search - Predictive and Full Results', () => {
+  test('SR-01: Predictive Search by SKU Suggests the Product', async ({ page, searchPage }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await page.goto('/');
+    });
+
+    await test.step('Open the header search', async () => {
+      await searchPage.openSearch();
+    });
+
+    await test.step(`Type SKU "${TARGET_PRODUCT.sku}"`, async () => {
+      await searchPage.typeQuery(TARGET_PRODUCT.sku);
+    });
+
+    await test.step('Verify the product is suggested', async () => {
+      const suggestions = await searchPage.getSuggestedProducts();
+      expect(suggestions.map((card) => card.url)).toContain(TARGET_PRODUCT.url);
+    });
+  });
+
+  test('SR-02: Predictive Search by Name Suggests the Product', async ({ page, searchPage }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await page.goto('/');
+    });
+
+    await test.step('Open the header search', async () => {
+      await searchPage.openSearch();
+    });
+
+    await test.step(`Type product name "${TARGET_PRODUCT.name}"`, async () => {
+      await searchPage.typeQuery(TARGET_PRODUCT.name);
+    });
+
+    await test.step('Verify the product is suggested by name', async () => {
+      const suggestions = await searchPage.getSuggestedProducts();
+      expect(suggestions.map((card) => card.name)).toContain(TARGET_PRODUCT.name);
+    });
+  });
+
+  test('SR-03: Submit Header Search Opens Results Page', async ({ page, searchPage }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await page.goto('/');
+    });
+
+    await test.step(`Search for SKU "${TARGET_PRODUCT.sku}" and submit`, async () => {
+      await searchPage.openSearch();
+      await searchPage.typeQuery(TARGET_PRODUCT.sku);
+      await searchPage.submitSearch();
+    });
+
+    await test.step('Verify the results page lists the product with its SKU', async () => {
+      expect(new URL(page.url()).searchParams.get('q')).toBe(TARGET_PRODUCT.sku);
+      const results = await searchPage.getResultCards();
+      const match = results.find((card) => card.url === TARGET_PRODUCT.url);
+      expect(match).toBeDefined();
+      await expect(searchPage.getSKUText(TARGET_PRODUCT.sku)).toBeVisible();
+    });
+  });
+
+  test('SR-04: Direct URL Access to Search Results by Name', async ({ searchPage }) => {
+    await test.step(`Navigate to /search for "${TARGET_PRODUCT.name}"`, async () => {
+      await searchPage.gotoResults(TARGET_PRODUCT.name);
+    });
+
+    await test.step('Verify the product card is in the results', async () => {
+      await expect(searchPage.resultsSearchInput).toHaveValue(TARGET_PRODUCT.name);
+      await expect(searchPage.getProductCardByName(TARGET_PRODUCT.name)).toBeVisible();
+      const results = await searchPage.getResultCards();
+      expect(results.find((card) => card.name === TARGET_PRODUCT.name)?.sku).toBe(TARGET_PRODUCT.sku);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '../../fixtures';
+import { config, withPreviewTheme } from '../../helpers/config';
+import { COLLECTIONS, SORT_OPTIONS, TARGET_PRODUCT } from '../../data/productNavigationData';
+import {
+  availabilityToStockStatus,
+  validateBreadcrumbs,
+  validateProductData,
+  validateSeoMetadata,
+} from '../../helpers/structuredData';
+
+test.describe('Structured Data - Product Page', () => {
+  test('SD-01: Product JSON-LD Matches the Visible Product', async ({ page, productPage }) => {
+    await test.step(`Navigate to ${TARGET_PRODUCT.url}`, async () => {
+      await page.goto(TARGET_PRODUCT.url);
+    });
+
+    const product = await test.step('Read the Product JSON-LD', async () => {
+      const product = await productPage.getProductStructuredData();
+      expect(product, 'The page has no Product JSON-LD').not.toBeNull();
+      expect(validateProductData(product!)).toEqual([]);
+      return product!;
+    });
+
+    await test.step('Verify the name matches the H1', async () => {
+      expect(product.name).toBe(TARGET_PRODUCT.name);
+      await expect(productPage.productTitle).toHaveText(product.name!);
+    });
+
+    const offer = await test.step('Verify the SKU matches the SKU shown on the page', async () => {
+      const offer = product.offers.find((candidate) => candidate.sku === TARGET_PRODUCT.sku);
+      expect(offer, `No offer with SKU ${TARGET_PRODUCT.sku}: ${product.offers.map((o) => o.sku).join(', ')}`).toBeDefined();
+      await expect(productPage.getSKUByNumber(offer!.sku!)).toBeVisible();
+      return offer!;
+    });
+
+    await test.step('Verify the availability matches the stock status', async () => {
+      await expect(productPage.getStockStatus()).toHaveText(availabilityToStockStatus(offer.availability)!);
+    });
+  });
+
+  test('SD-02: BreadcrumbList Ends With the Product', async ({ page, productPage }) => {
+    await test.step(`Navigate to ${TARGET_PRODUCT.url}`, async () => {
+      await page.goto(TARGET_PRODUCT.url);
+    });
+
+    await test.step('Verify the breadcrumb trail is complete and ends with the product', async () => {
+      const breadcrumbs = await productPage.getBreadcrumbs();
+      expect(breadcrumbs, 'The page has no BreadcrumbList JSON-LD').not.toBeNull();
+      expect(validateBreadcrumbs(breadcrumbs!)).toEqual([]);
+      expect(breadcrumbs!.at(-1)?.name).toBe(TARGET_PRODUCT.name);
+    });
+  });
+
+  test('SD-03: Product SEO Metadata Points to the Canonical Product URL', async ({ page, productPage }) => {
+    const collectionProductPath = `${COLLECTIONS[0].url}${TARGET_PRODUCT.url}`;
+
+    await test.step(`Navigate to ${collectionProductPath} on the tested theme`, async () => {
+      await page.goto(withPreviewTheme(collectionProductPath));
+    });
+
+    await test.step('Verify the canonical URL, meta description, Open Graph tags and hreflang', async () => {
+      const metadata = await productPage.getSeoMetadata();
+      expect(validateSeoMetadata(metadata)).toEqual([]);
+
+      // Product pages reached through a collection are canonical at /products/<handle>
+      expect(new URL(metadata.canonical!).pathname).toBe(TARGET_PRODUCT.url);
+      expect(metadata.openGraph['url']).toBe(metadata.canonical);
+      expect(metadata.openGraph['type']).toBe('product');
+      expect(metadata.openGraph['title']).toContain(TARGET_PRODUCT.name);
+    });
+  });
+});
+
+for (const collection of COLLECTIONS) {
+  test.describe(`Structured Data - ${collection.name}`, () => {
+    test('SD-04: Collection SEO Metadata on a Sorted Page', async ({ page, collectionPage }) => {
+      test.skip(config.replay, 'Sorted collection pages are not recorded');
+      const sortedPath = `${collection.url}?sort_by=${SORT_OPTIONS.titleAscending}`;
+
+      await test.step(`Navigate to ${sortedPath} on the tested theme`, async () => {
+        await page.goto(withPreviewTheme(sortedPath));
+        await expect(collectionPage.getCollectionHeading(collection.name)).toBeVisible();
+      });
+
+      await test.step('Verify the canonical URL drops the sort and theme parameters', async () => {
+        const metadata = await collectionPage.getSeoMetadata();
+        expect(validateSeoMetadata(metadata)).toEqual([]);
+        expect(new URL(metadata.canonical!).pathname).toBe(collection.url);
+        expect(metadata.openGraph['title']).toContain(collection.name);
+      });
+    });
+  });
+}
@@ -0,0 +1,189 @@
+import { test, expect } from '../../fixtures';
+import type { Page } from '@playwright/test';
+import { config } from '../../helpers/config';
+import { getCollection, TARGET_PRODUCT } from '../../data/productNavigationData';
+import type { CollectionPage, GridProduct } from '../../pages/CollectionPage';
+import { ProductPage } from '../../pages/ProductPage';
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+// These tests interact with the dialog, so it must not be closed automatically
+test.use({ dismissStoreLocator: false });
+
+/**
+ * Reads the product cards on every page of the collection for the selected branch
+ */
+async function readCollectionStock(page: Page, collectionPage: CollectionPage): Promise<GridProduct[]> {
+  await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+  return (await collectionPage.crawlCollection()).products;
+}
+
+/**
+ * Opens every product in a second tab and checks its page shows the card's stock status
+ * The tab shares the session, so both pages show the inventory of the same branch
+ */
+async function expectProductPagesToMatchCards(page: Page, products: GridProduct[], branch: string): Promise<void> {
+  const detailPage = await page.context().newPage();
+  const productPage = new ProductPage(detailPage);
+  for (const product of products) {
+    expect(product.stockStatus, `"${product.name}" shows no stock status for "${branch}"`).not.toBeNull();
+    await detailPage.goto(product.url);
+    await expect(productPage.getStockStatus(), `"${product.name}" for "${branch}"`).toContainText(product.stockStatus ?? '', {
+      ignoreCase: true,
+    });
+  }
+  await detailPage.close();
+}
+
+test.describe('Store Locator - Branch Selection', () => {
+  test.skip(config.replay, 'Branch selection is stored per session and needs the live store');
+
+  test('SL-01: List Branches in the Store Locator Dialog', async ({ page, storeLocatorPage }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await page.goto('/');
+    });
+
+    await test.step('Open the store locator dialog', async () => {
+      await storeLocatorPage.open();
+      await expect(storeLocatorPage.heading).toBeVisible();
+    });
+
+    await test.step('Verify more than one branch is listed, each with a unique name', async () => {
+      const branchNames = await storeLocatorPage.getBranchNames();
+      expect(branchNames.length).toBeGreaterThan(1);
+      expect(branchNames.every((name) => name.length > 0)).toBe(true);
+      expect(new Set(branchNames).size).toBe(branchNames.length);
+    });
+  });
+
+  test('SL-02: Search Branches', async ({ page, storeLocatorPage }) => {
+    let branchNames: string[] = [];
+
+    await test.step('Open the store locator dialog', async () => {
+      await page.goto('/');
+      await storeLocatorPage.open();
+      branchNames = await storeLocatorPage.getBranchNames();
+    });
+
+    await test.step('Search for the last listed branch by name', async () => {
+      const target = branchNames[branchNames.length - 1];
+      const results = await storeLocatorPage.searchBranches(target);
+      expect(results).toContain(target);
+      expect(results.length).toBeLessThanOrEqual(branchNames.length);
+    });
+  });
+
+  test('SL-03: Selected Branch Is Saved Across Reloads', async ({ page, storeLocatorPage }) => {
+    let branchName = '';
+
+    await test.step('Select the second listed branch', async () => {
+      await page.goto('/');
+      await storeLocatorPage.open();
+      branchName = (await storeLocatorPage.getBranchNames())[1];
+      await storeLocatorPage.selectBranch(branchName);
+    });
+
+    await test.step('Verify the header shows the selected branch', async () => {
+      expect(await storeLocatorPage.getSelectedBranch()).toContain(branchName);
+    });
+
+    await test.step('Reload and verify the branch is kept and the dialog stays closed', async () => {
+      await page.reload();
+      await expect(storeLocatorPage.headerBranchButton).toContainText(branchName);
+      await expect(storeLocatorPage.dialog).toBeHidden();
+    });
+  });
+
+  test('SL-04: Dismissing the Dialog Does Not Select a Branch', async ({ page, storeLocatorPage }) => {
+    await test.step('Open and dismiss the store locator dialog', async () => {
+      await page.goto('/');
+      const before = await storeLocatorPage.getSelectedBranch();
+      await storeLocatorPage.open();
+      await storeLocatorPage.dismiss();
+      await expect(storeLocatorPage.dialog).toBeHidden();
+      expect(await storeLocatorPage.getSelectedBranch()).toBe(before);
+    });
+
+    await test.step('Verify closing an already closed dialog does not fail', async () => {
+      await storeLocatorPage.closeStoreLocatorPopup();
+    });
+  });
+});
+
+test.describe('Store Locator - Branch-Aware Inventory', () => {
+  test.skip(config.replay, 'Branch selection is stored per session and needs the live store');
+
+  test('SL-05: Collection Stock Status Follows the Selected Branch', async ({
+    page,
+    storeLocatorPage,
+    collectionPage,
+  }) => {
+    test.setTimeout(180000);
+    let branches: string[] = [];
+    const stockByBranch: Record<string, string | null>[] = [];
+
+    await test.step('Read the first two branches', async () => {
+      await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+      await storeLocatorPage.open();
+      branches = (await storeLocatorPage.getBranchNames()).slice(0, 2);
+      await storeLocatorPage.dismiss();
+    });
+
+    for (const branch of branches) {
+      await test.step(`Select "${branch}" and verify every card matches its product page`, async () => {
+        // Live inventory decides whether the branches differ, so each card is checked against
+        // the product page for the same branch instead
+        await storeLocatorPage.selectBranch(branch);
+        const products = await readCollectionStock(page, collectionPage);
+        expect(products.length).toBeGreaterThan(0);
+        await expectProductPagesToMatchCards(page, products, branch);
+        stockByBranch.push(Object.fromEntries(products.map((product) => [product.handle, product.stockStatus])));
+      });
+    }
+
+    await test.step('Switch back to the first branch and verify its stock status is restored', async () => {
+      const [first, second] = stockByBranch;
+      const changed = Object.keys(first).filter((handle) => first[handle] !== second[handle]);
+      test.info().annotations.push({
+        type: 'branch-stock',
+        description: `${changed.length} of ${Object.keys(first).length} products differ between ${branches[0]} and ${branches[1]}`,
+      });
+
+      await storeLocatorPage.selectBranch(branches[0]);
+      const products = await readCollectionStock(page, collectionPage);
+      expect(Object.fromEntries(products.map((product) => [product.handle, product.stockStatus]))).toEqual(first);
+    });
+  });
+
+  test('SL-06: Product Availability Matches the Collection for Each Branch', async ({
+    page,
+    storeLocatorPage,
+    collectionPage,
+    productPage,
+  }) => {
+    await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+    await storeLocatorPage.open();
+    const branches = (await storeLocatorPage.getBranchNames()).slice(0, 2);
+    await storeLocatorPage.dismiss();
+
+    for (const branch of branches) {
+      await test.step(`Select "${branch}" and compare "${TARGET_PRODUCT.name}" on both pages`, async () => {
+        await storeLocatorPage.selectBranch(branch);
+        // The target product can be on any page of the collection
+        const card = (await readCollectionStock(page, collectionPage)).find((product) => product.url === TARGET_PRODUCT.url);
+        const stockStatus = card?.stockStatus;
+        if (!stockStatus) {
+          throw new Error(`"${TARGET_PRODUCT.name}" shows no stock status on the collection page for "${branch}"`);
+        }
+
+        await page.goto(TARGET_PRODUCT.url);
+        await expect(productPage.getStockStatus()).toContainText(stockStatus, { ignoreCase: true });
+        if (/out of stock/i.test(stockStatus)) {
+          await expect(productPage.addToCartButton).toBeDisabled();
+        } else {
+          await expect(productPage.addToCartButton).toBeEnabled();
+        }
+      });
+    }
+  });
+});
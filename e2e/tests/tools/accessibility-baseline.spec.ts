@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { compareWithBaseline, getBaselineKey, type AccessibilityViolation } from '../../helpers/accessibility';
+
+function violation(ruleId: string, target: string): AccessibilityViolation {
+  return { ruleId, target, impact: 'serious', help: `${ruleId} help`, helpUrl: `https://dequeuniversity.com/rules/axe/${ruleId}` };
+}
+
+test.describe('Accessibility Baseline Comparison', () => {
+  test('AB-01: Split New and Known Violations', async () => {
+    const result = compareWithBaseline(
+      'mega-menu',
+      'chromium',
+      'https://example.test/',
+      [violation('color-contrast', '.mega-menu__link'), violation('link-name', '.mega-menu__card')],
+      { 'chromium/mega-menu': [{ ruleId: 'color-contrast', target: '.mega-menu__link' }] }
+    );
+
+    expect(result.knownViolations.map((entry) => entry.ruleId)).toEqual(['color-contrast']);
+    expect(result.newViolations.map((entry) => entry.ruleId)).toEqual(['link-name']);
+    expect(result.resolvedBaseline).toEqual([]);
+  });
+
+  test('AB-02: Report Baseline Entries That No Longer Occur', async () => {
+    const result = compareWithBaseline('home', 'chromium', 'https://example.test/', [], {
+      'chromium/home': [{ ruleId: 'image-alt', target: 'img.hero' }],
+    });
+
+    expect(result.newViolations).toEqual([]);
+    expect(result.resolvedBaseline).toEqual([{ ruleId: 'image-alt', target: 'img.hero' }]);
+  });
+
+  test('AB-03: Treat the Same Rule on Another Element as New', async () => {
+    const result = compareWithBaseline('home', 'chromium', 'https://example.test/', [violation('image-alt', 'img.logo')], {
+      'chromium/home': [{ ruleId: 'image-alt', target: 'img.hero' }],
+    });
+
+    expect(result.newViolations).toHaveLength(1);
+  });
+
+  test('AB-04: Keep a Separate Baseline per Project', async () => {
+    const baseline = { [getBaselineKey('mobile-safari', 'mega-menu')]: [{ ruleId: 'aria-hidden-focus', target: '#menu-drawer' }] };
+    const drawerViolation = [violation('aria-hidden-focus', '#menu-drawer')];
+
+    expect(getBaselineKey('mobile-safari', 'mega-menu')).toBe('mobile-safari/mega-menu');
+    expect(compareWithBaseline('mega-menu', 'mobile-safari', 'https://example.test/', drawerViolation, baseline).newViolations).toEqual([]);
+    // The same violation in another project isn't covered by the mobile baseline
+    expect(compareWithBaseline('mega-menu', 'chromium', 'https://example.test/', drawerViolation, baseline).newViolations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,36 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_BREAKPOINTS, getBreakpointForWidth, parseThemeBreakpoints } from '../../helpers/breakpoints';
+
+test.describe('Theme Breakpoint Helpers', () => {
+  test('BP-01: Read Breakpoints From the Theme Media Rules', async () => {
+    const rules = [
+      { minWidth: 750, selectors: '.grid--2-col-tablet .grid__item, .facets-container' },
+      { minWidth: 990, selectors: 'header-drawer' },
+      { minWidth: 990, selectors: '.header__inline-menu' },
+      { minWidth: 1200, selectors: '.header__inline-menu .mega-menu__list' },
+      // Unrelated rules don't move a breakpoint
+      { minWidth: 480, selectors: '.newsletter-form' },
+    ];
+
+    expect(parseThemeBreakpoints(rules)).toEqual({ tablet: 750, desktop: 990 });
+    // A theme that moves the desktop header to 1024px
+    expect(parseThemeBreakpoints([{ minWidth: 1024, selectors: 'header-drawer' }])).toEqual({ tablet: 750, desktop: 1024 });
+    // Unreadable (cross-origin) or inconsistent stylesheets fall back to Dawn's values
+    expect(parseThemeBreakpoints([])).toEqual(DEFAULT_BREAKPOINTS);
+    expect(parseThemeBreakpoints([{ minWidth: 1100, selectors: '.facets__form' }, { minWidth: 990, selectors: 'header-drawer' }])).toEqual(
+      DEFAULT_BREAKPOINTS
+    );
+  });
+
+  test('BP-02: Map Project Viewports to Theme Layouts', async () => {
+    // Pixel 5, iPad portrait, iPad landscape, Desktop Chrome
+    expect([393, 810, 1080, 1280].map((width) => getBreakpointForWidth(width, DEFAULT_BREAKPOINTS))).toEqual([
+      'mobile',
+      'tablet',
+      'desktop',
+      'desktop',
+    ]);
+    expect(getBreakpointForWidth(749, DEFAULT_BREAKPOINTS)).toBe('mobile');
+    expect(getBreakpointForWidth(990, DEFAULT_BREAKPOINTS)).toBe('desktop');
+  });
+});
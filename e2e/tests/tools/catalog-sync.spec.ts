@@ -0,0 +1,191 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CollectionData, ProductData } from '../../data/productNavigationData';
+import {
+  createFixtureFetcher,
+  diffCatalog,
+  extractSpecifications,
+  formatDrift,
+  getDroppedTargetProducts,
+  getMenuCollectionHandles,
+  renderCatalogModule,
+  syncCatalog,
+} from '../../helpers/catalog';
+
+const storeResponses = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures/catalog-store.json'), 'utf-8')
+) as Record<string, unknown>;
+
+const TARGET_PRODUCT: ProductData = {
+  name: '12 oz Clear Glass Round Tall Mayonnaise Jar 70-450',
+  sku: '40220148',
+  url: '/products/12-oz-flt-70g-450-mayo-rp-1014-6',
+  specifications: {
+    capacity: '12 OZ',
+    material: 'Glass',
+    color: 'Clear Flint',
+    countryOfOrigin: 'China',
+  },
+  variantOptions: [],
+};
+
+const REGISTRY: CollectionData[] = [
+  {
+    url: '/collections/glass-bottles-jars-1',
+    name: 'Glass Bottles & Jars',
+    productCount: 3,
+    targetProduct: TARGET_PRODUCT,
+  },
+];
+
+test.describe('Catalog Sync - Offline Against Saved Store Responses', () => {
+  test('CS-01: Build Collection and Product Data from JSON Endpoints', async () => {
+    const snapshot = await syncCatalog(createFixtureFetcher(storeResponses), REGISTRY);
+
+    expect(snapshot.collections).toEqual([
+      {
+        url: '/collections/glass-bottles-jars-1',
+        name: 'Glass Bottles & Jars',
+        productCount: 3,
+        targetProduct: REGISTRY[0].targetProduct,
+      },
+    ]);
+    expect(snapshot.products.map((product) => product.sku)).toEqual(['40220148']);
+  });
+
+  test('CS-02: Check Mode Reports No Drift for Current Data', async () => {
+    const snapshot = await syncCatalog(createFixtureFetcher(storeResponses), REGISTRY);
+
+    expect(diffCatalog(REGISTRY, snapshot)).toEqual([]);
+    expect(formatDrift([])).toBe('Catalog data matches the store');
+  });
+
+  test('CS-03: Check Mode Reports Every Drifted Field', async () => {
+    const stale: CollectionData[] = [
+      {
+        ...REGISTRY[0],
+        productCount: 41,
+        targetProduct: { ...REGISTRY[0].targetProduct!, sku: '40220000', specifications: { ...REGISTRY[0].targetProduct!.specifications, capacity: '16 OZ' } },
+      },
+    ];
+    const snapshot = await syncCatalog(createFixtureFetcher(storeResponses), stale);
+    const drifts = diffCatalog(stale, snapshot);
+
+    expect(drifts).toEqual([
+      { subject: '/collections/glass-bottles-jars-1', field: 'productCount', committed: '41', store: '3' },
+      { subject: '/products/12-oz-flt-70g-450-mayo-rp-1014-6', field: 'sku', committed: '40220000', store: '40220148' },
+      { subject: '/products/12-oz-flt-70g-450-mayo-rp-1014-6', field: 'specifications.capacity', committed: '16 OZ', store: '12 OZ' },
+    ]);
+    expect(formatDrift(drifts)).toContain('3 field(s) differ');
+  });
+
+  test('CS-04: Check Mode Reports a Target Product Removed from Its Collection', async () => {
+    const responses = structuredClone(storeResponses) as Record<string, { products: { handle: string }[] }>;
+    const productsPath = '/collections/glass-bottles-jars-1/products.json?limit=250&page=1';
+    responses[productsPath].products = responses[productsPath].products.filter(
+      (product) => product.handle !== '12-oz-flt-70g-450-mayo-rp-1014-6'
+    );
+
+    const snapshot = await syncCatalog(createFixtureFetcher(responses), REGISTRY);
+
+    const drifts = diffCatalog(REGISTRY, snapshot);
+    const removed = {
+      subject: '/products/12-oz-flt-70g-450-mayo-rp-1014-6',
+      field: 'collection',
+      committed: '/collections/glass-bottles-jars-1',
+      store: 'not in collection',
+    };
+    expect(drifts).toContainEqual(removed);
+    // The sync refuses to write data without it
+    expect(getDroppedTargetProducts(drifts)).toEqual([removed]);
+  });
+
+  test('CS-05: Read Specifications from Tags and Single-Value Options', async () => {
+    expect(
+      extractSpecifications({
+        title: 'Amber jar',
+        handle: 'amber-jar',
+        tags: 'Material: Glass, Country of Origin: USA',
+        options: [{ name: 'Colour', values: ['Amber'] }],
+        variants: [{ sku: '1' }],
+      })
+    ).toEqual({ material: 'Glass', countryOfOrigin: 'USA', color: 'Amber' });
+  });
+
+  test('CS-06: Render a Typed Data Module', async () => {
+    const snapshot = await syncCatalog(createFixtureFetcher(storeResponses), REGISTRY);
+    const module = renderCatalogModule(snapshot, 'catalog-store.json');
+
+    expect(module).toContain("import type { CollectionData, ProductData } from './productNavigationData';");
+    expect(module).toContain('export const CATALOG_COLLECTIONS: CollectionData[] = [');
+    expect(module).toContain('productCount: 3,');
+    expect(module).toContain('sku: "40220148",');
+  });
+
+  test('CS-07: Fail Clearly on a Missing Fixture Response', async () => {
+    await expect(syncCatalog(createFixtureFetcher({}), REGISTRY)).rejects.toThrow(
+      '[Catalog] No fixture response for /collections/glass-bottles-jars-1.json'
+    );
+  });
+
+  test('CS-08: Register the Collections Linked From the Menu', async () => {
+    const menu = [
+      {
+        label: 'Products',
+        href: null,
+        children: [
+          { label: 'Glass Bottles & Jars', href: '/collections/glass-bottles-jars-1', children: [] },
+          { label: 'All Glass', href: '/en-ca/collections/glass-bottles-jars-1', children: [] },
+          { label: 'Plastic Bottles', href: '/collections/plastic-bottles', children: [] },
+        ],
+      },
+      { label: 'About Us', href: '/pages/about-us', children: [] },
+    ];
+    const handles = getMenuCollectionHandles(menu);
+    expect(handles).toEqual(['glass-bottles-jars-1', 'plastic-bottles']);
+
+    const responses = {
+      ...storeResponses,
+      '/collections/plastic-bottles.json': { collection: { title: 'Plastic Bottles' } },
+      '/collections/plastic-bottles/products.json?limit=250&page=1': { products: [] },
+    };
+    const snapshot = await syncCatalog(createFixtureFetcher(responses), REGISTRY, handles);
+
+    expect(snapshot.collections.map((collection) => collection.name)).toEqual(['Glass Bottles & Jars', 'Plastic Bottles']);
+    expect(diffCatalog(REGISTRY, snapshot)).toEqual([
+      { subject: '/collections/plastic-bottles', field: 'collection', committed: 'not registered', store: 'present' },
+    ]);
+  });
+
+  test('CS-09: Keep Product Details Attributes the Endpoints Do Not Expose', async () => {
+    const registry: CollectionData[] = [
+      {
+        ...REGISTRY[0],
+        targetProduct: { ...TARGET_PRODUCT, specifications: { ...TARGET_PRODUCT.specifications, neckFinish: '70-450' } },
+      },
+    ];
+
+    const snapshot = await syncCatalog(createFixtureFetcher(storeResponses), registry);
+
+    expect(snapshot.products[0].specifications.neckFinish).toBe('70-450');
+    expect(diffCatalog(registry, snapshot)).toEqual([]);
+  });
+
+  test('CS-10: Record Variant Options and Report When They Change', async () => {
+    const responses = structuredClone(storeResponses) as Record<string, { options: unknown[] }>;
+    responses['/products/12-oz-flt-70g-450-mayo-rp-1014-6.js'].options = [{ name: 'Case Pack', position: 1, values: ['6', '12'] }];
+
+    const snapshot = await syncCatalog(createFixtureFetcher(responses), REGISTRY);
+
+    expect(snapshot.products[0].variantOptions).toEqual([{ name: 'Case Pack', values: ['6', '12'] }]);
+    expect(diffCatalog(REGISTRY, snapshot)).toEqual([
+      {
+        subject: '/products/12-oz-flt-70g-450-mayo-rp-1014-6',
+        field: 'variantOptions',
+        committed: '[]',
+        store: '[{"name":"Case Pack","values":["6","12"]}]',
+      },
+    ]);
+  });
+});
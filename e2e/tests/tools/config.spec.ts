@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import { inspect } from 'util';
+import { ConfigError, describeConfig, loadConfig, requireStorePassword, withPreviewTheme } from '../../helpers/config';
+
+test.describe('Environment Configuration', () => {
+  test('CF-01: Build the US Preview Profile From the Environment', async () => {
+    const config = loadConfig({ TEST_ENV: 'us-preview', TEST_THEME_ID: '154660733174', STORE_PASSWORD: 'secret' });
+
+    expect(config).toMatchObject({
+      profile: 'us-preview',
+      storeUrl: 'https://richards-packaging-us.myshopify.com',
+      themeId: '154660733174',
+      replay: false,
+      perfBudgets: 'off',
+      pageErrors: 'warn',
+      thirdParty: 'allow',
+      visualMaxDiffRatio: 0.01,
+      visualTests: false,
+      a11yTests: false,
+    });
+    expect(config.storePassword?.reveal()).toBe('secret');
+    expect(withPreviewTheme('/', config)).toBe('/?preview_theme_id=154660733174');
+    expect(withPreviewTheme('/collections/x?page=2', config)).toBe('/collections/x?page=2&preview_theme_id=154660733174');
+  });
+
+  test('CF-02: Default to the Live Profile and Never Append an Empty Theme ID', async () => {
+    const config = loadConfig({ STORE_PASSWORD: 'secret', TEST_THEME_ID: '' });
+
+    expect(config.profile).toBe('us-live');
+    expect(config.themeId).toBeNull();
+    expect(withPreviewTheme('/', config)).toBe('/');
+  });
+
+  test('CF-03: Report Every Missing or Invalid Value at Once', async () => {
+    let error: ConfigError | undefined;
+    try {
+      loadConfig({
+        TEST_ENV: 'us-preview',
+        TEST_URL: 'http://store.test/x',
+        PERF_BUDGETS: 'strict',
+        PAGE_ERRORS: 'ignore',
+        THIRD_PARTY: 'none',
+      });
+    } catch (thrown) {
+      error = thrown as ConfigError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error?.problems).toEqual([
+      'TEST_URL must use https: "http://store.test/x"',
+      'TEST_THEME_ID is required: this profile tests an unpublished theme',
+      'PERF_BUDGETS must be one of off, report, enforce: "strict"',
+      'PAGE_ERRORS must be one of off, warn, fail: "ignore"',
+      'THIRD_PARTY must be one of allow, block, stub: "none"',
+    ]);
+    expect(() => loadConfig({ TEST_ENV: 'staging' })).toThrow(/Unknown TEST_ENV "staging"/);
+    expect(() => loadConfig({ TEST_ENV: 'ca-live', STORE_PASSWORD: 'secret' })).toThrow(/TEST_URL is required/);
+    expect(() => loadConfig({ STORE_PASSWORD: 'secret', TEST_THEME_ID: 'abc' })).toThrow(/published theme[\s\S]*numeric/);
+  });
+
+  test('CF-04: Run the Replay Profile Without a Password', async () => {
+    const config = loadConfig({ TEST_ENV: 'replay', TEST_THEME_ID: '154660733174' });
+
+    expect(config).toMatchObject({ replay: true, storePassword: null, themeId: null });
+    // A live profile loads without a password too; only logging in needs it
+    const live = loadConfig({});
+    expect(live).toMatchObject({ profile: 'us-live', storePassword: null });
+    expect(() => requireStorePassword(live)).toThrow(/STORE_PASSWORD is required to get past the storefront password page/);
+    expect(requireStorePassword(loadConfig({ STORE_PASSWORD: 'secret' })).reveal()).toBe('secret');
+    expect(() => loadConfig({ TEST_ENV: 'replay', RECORD: '1' })).toThrow(/RECORD=1 needs a live profile/);
+  });
+
+  test('CF-05: Mask the Store Password in Logs', async () => {
+    const config = loadConfig({ TEST_ENV: 'ca-live', TEST_URL: 'https://store.test/', STORE_PASSWORD: 'hunter2' });
+
+    expect(config.storeUrl).toBe('https://store.test');
+    expect(describeConfig(config)).toContain('password: ******');
+    expect(JSON.stringify(config)).not.toContain('hunter2');
+    expect(inspect(config)).not.toContain('hunter2');
+    expect(`${config.storePassword}`).toBe('******');
+  });
+});
@@ -0,0 +1,138 @@
+import { test, expect, request, type APIRequestContext } from '@playwright/test';
+import * as path from 'path';
+import {
+  crawlSite,
+  createRequestChecker,
+  formatCrawlReport,
+  type PageResources,
+  type UrlStatus,
+} from '../../helpers/crawler';
+import { startFixtureSite, type FixtureSite } from '../../helpers/fixtureSite';
+
+const SITE = 'https://store.test';
+
+/**
+ * Resources of a small store: two collections, one linked twice, and a product
+ */
+const PAGES: Record<string, PageResources> = {
+  [`${SITE}/`]: {
+    links: [`${SITE}/collections/glass`, `${SITE}/collections/glass#grid`, `${SITE}/collections/old`, `${SITE}/cart`],
+    images: [`${SITE}/logo.png`],
+  },
+  [`${SITE}/collections/glass`]: {
+    links: [`${SITE}/products/jar`, `${SITE}/collections/glass?sort_by=price-ascending`, 'https://other.test/'],
+    images: [`${SITE}/jar.png`],
+  },
+  [`${SITE}/products/jar`]: {
+    links: [`${SITE}/products/lid`],
+    images: [`${SITE}/missing.png`],
+  },
+};
+
+const STATUSES: Record<string, UrlStatus> = {
+  [`${SITE}/collections/old`]: {
+    status: 200,
+    finalUrl: `${SITE}/collections/glass`,
+    redirectChain: [{ url: `${SITE}/collections/old`, status: 301 }],
+  },
+  [`${SITE}/missing.png`]: { status: 404, finalUrl: `${SITE}/missing.png`, redirectChain: [] },
+};
+
+const scanStub = async (url: string) => PAGES[url] ?? { links: [], images: [] };
+const checkStub = async (url: string): Promise<UrlStatus> =>
+  STATUSES[url] ?? { status: 200, finalUrl: url, redirectChain: [] };
+
+test.describe('Link Crawler', () => {
+  test('CR-01: Follow Links by Depth and Pattern', async () => {
+    const scanned: string[] = [];
+    const report = await crawlSite(
+      async (url) => {
+        scanned.push(url);
+        return scanStub(url);
+      },
+      checkStub,
+      { startUrl: `${SITE}/`, maxDepth: 1, follow: [/\/collections\/[^/?]+$/, /\/products\//], exclude: [/\/cart$/] }
+    );
+
+    // The redirected link resolves to an already scanned page; products are two links deep
+    expect(scanned).toEqual([`${SITE}/`, `${SITE}/collections/glass`]);
+    expect(report.checked.map((result) => result.url)).toEqual([
+      `${SITE}/logo.png`,
+      `${SITE}/collections/glass`,
+      `${SITE}/collections/old`,
+      `${SITE}/jar.png`,
+      `${SITE}/products/jar`,
+      `${SITE}/collections/glass?sort_by=price-ascending`,
+      'https://other.test/',
+    ]);
+    // Linked twice from the homepage, once with a fragment
+    expect(report.checked.find((result) => result.url === `${SITE}/collections/glass`)?.foundOn).toEqual([`${SITE}/`]);
+  });
+
+  test('CR-02: Report Broken URLs and Redirects With Their Pages', async () => {
+    const report = await crawlSite(scanStub, checkStub, {
+      startUrl: `${SITE}/`,
+      maxDepth: 3,
+      follow: [/\/collections\/[^/?]+$/, /\/products\//],
+      include: [new RegExp(`^${SITE}/`)],
+      maxPages: 3,
+    });
+
+    expect(report.pages).toHaveLength(3);
+    expect(report.broken.map((result) => [result.kind, result.url, result.foundOn])).toEqual([
+      ['image', `${SITE}/missing.png`, [`${SITE}/products/jar`]],
+    ]);
+    expect(report.redirected.map((result) => result.url)).toEqual([`${SITE}/collections/old`]);
+    expect(report.checked.some((result) => result.url.startsWith('https://other.test'))).toBe(false);
+
+    const text = formatCrawlReport(report);
+    expect(text).toContain(`[image] ${SITE}/missing.png: 404 ${SITE}/missing.png\n      found on ${SITE}/products/jar`);
+    expect(text).toContain(`[link] 301 ${SITE}/collections/old -> 200 ${SITE}/collections/glass`);
+  });
+
+  test.describe('Request Checker', () => {
+    let site: FixtureSite;
+    let context: APIRequestContext;
+
+    test.beforeAll(async () => {
+      site = await startFixtureSite(path.join(__dirname, 'fixtures/crawler-site'));
+      context = await request.newContext();
+    });
+
+    test.afterAll(async () => {
+      await context.dispose();
+      await site.close();
+    });
+
+    test('CR-03: Report Statuses and Every Redirect Hop From the Fixture Site', async () => {
+      const check = createRequestChecker(context);
+
+      expect(await check(`${site.url}/collections/glass`)).toEqual({
+        status: 200,
+        finalUrl: `${site.url}/collections/glass`,
+        redirectChain: [],
+      });
+      expect((await check(`${site.url}/images/banner-missing.png`)).status).toBe(404);
+      expect(await check(`${site.url}/collections/old-jars`)).toEqual({
+        status: 200,
+        finalUrl: `${site.url}/collections/glass`,
+        redirectChain: [
+          { url: `${site.url}/collections/old-jars`, status: 301 },
+          { url: `${site.url}/collections/older-jars`, status: 302 },
+        ],
+      });
+    });
+
+    test('CR-04: Report Redirect Loops and Unreachable Hosts as Broken', async () => {
+      const check = createRequestChecker(context);
+
+      const loop = await check(`${site.url}/collections/redirect-loop`);
+      expect(loop.status).toBeNull();
+      expect(loop.error).toBe('More than 10 redirects');
+
+      const unreachable = await check('http://127.0.0.1:9/');
+      expect(unreachable.status).toBeNull();
+      expect(unreachable.error).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { createRequestChecker, crawlSite, formatCrawlReport, type CrawlReport } from '../../helpers/crawler';
+import { startFixtureSite, type FixtureSite } from '../../helpers/fixtureSite';
+import { NavigationPage } from '../../pages/NavigationPage';
+
+// The only tools specs that open a browser: the page scanner runs against the local fixture site
+
+/**
+ * Attaches the crawl report to the HTML report as text and JSON
+ */
+async function attachCrawlReport(report: CrawlReport): Promise<void> {
+  await test.info().attach('crawl-report', { body: formatCrawlReport(report), contentType: 'text/plain' });
+  await test.info().attach('crawl-report.json', { body: JSON.stringify(report, null, 2), contentType: 'application/json' });
+}
+
+test.describe('Link Crawler - Fixture Site', () => {
+  let site: FixtureSite;
+
+  test.beforeAll(async () => {
+    site = await startFixtureSite(path.join(__dirname, 'fixtures/crawler-site'));
+  });
+
+  test.afterAll(async () => {
+    await site.close();
+  });
+
+  test('LC-01: Report Broken Links and Images With the Pages They Were Found On', async ({ page }) => {
+    const navigationPage = new NavigationPage(page);
+    let report!: CrawlReport;
+
+    await test.step('Crawl the fixture site two links deep', async () => {
+      report = await crawlSite((url) => navigationPage.scanPage(url), createRequestChecker(page.request), {
+        startUrl: `${site.url}/`,
+        maxDepth: 2,
+        follow: [/\/collections\//, /\/products\//, /\/pages\//],
+        exclude: [/external\.example/],
+      });
+      await attachCrawlReport(report);
+    });
+
+    await test.step('Verify the broken menu link is reported on every page that has the header', async () => {
+      const discontinued = report.broken.find((result) => result.url === `${site.url}/collections/discontinued`);
+      expect(discontinued?.status).toBe(404);
+      expect(discontinued?.foundOn).toEqual(expect.arrayContaining([`${site.url}/`, `${site.url}/products/jar`]));
+    });
+
+    await test.step('Verify broken images and product links are reported', async () => {
+      expect(report.broken.map((result) => [result.kind, new URL(result.url).pathname]).sort()).toEqual([
+        ['image', '/images/banner-missing.png'],
+        ['image', '/images/jar-back.png'],
+        ['link', '/collections/discontinued'],
+        ['link', '/products/retired-jar'],
+      ]);
+    });
+
+    await test.step('Verify the mobile drawer link is collected', async () => {
+      expect(report.checked.map((result) => result.url)).toContain(`${site.url}/collections/plastic`);
+    });
+  });
+
+  test('LC-02: Report Redirect Chains', async ({ page }) => {
+    const navigationPage = new NavigationPage(page);
+    const report = await crawlSite((url) => navigationPage.scanPage(url), createRequestChecker(page.request), {
+      startUrl: `${site.url}/`,
+      maxDepth: 0,
+      follow: [],
+    });
+    await attachCrawlReport(report);
+
+    expect(report.redirected).toHaveLength(1);
+    expect(report.redirected[0].redirectChain).toEqual([
+      { url: `${site.url}/collections/old-jars`, status: 301 },
+      { url: `${site.url}/collections/older-jars`, status: 302 },
+    ]);
+    expect(report.redirected[0].finalUrl).toBe(`${site.url}/collections/glass`);
+    expect(report.redirected[0].status).toBe(200);
+  });
+
+  test('LC-03: Respect Depth and URL Patterns', async ({ page }) => {
+    const navigationPage = new NavigationPage(page);
+    const report = await crawlSite((url) => navigationPage.scanPage(url), createRequestChecker(page.request), {
+      startUrl: `${site.url}/`,
+      maxDepth: 1,
+      follow: [/\/collections\//],
+      exclude: [/external\.example/, /\/pages\//],
+    });
+
+    expect(report.pages.map((url) => new URL(url).pathname).sort()).toEqual([
+      '/',
+      '/collections/glass',
+      '/collections/plastic',
+    ]);
+    expect(report.checked.some((result) => result.url.includes('/pages/'))).toBe(false);
+    // Product pages are two links deep, so their own links are never collected
+    expect(report.checked.some((result) => result.url.endsWith('/products/jar-lid'))).toBe(false);
+  });
+});
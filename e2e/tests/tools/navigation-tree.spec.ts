@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import {
+  checkNavigationSnapshot,
+  diffNavigationTrees,
+  findUnresolvedLeaves,
+  formatNavigationDiff,
+  getNavigationTarget,
+} from '../../helpers/navigation';
+import type { NavigationNode } from '../../pages/NavigationPage';
+
+/**
+ * A small store menu: Products with two columns, and a Resources menu
+ */
+const MENU: NavigationNode[] = [
+  {
+    label: 'Products',
+    href: null,
+    children: [
+      {
+        label: 'Glass',
+        href: '/collections/glass',
+        children: [
+          { label: 'Glass Bottles & Jars', href: '/collections/glass-bottles-jars-1', children: [] },
+          { label: 'Glass Vials', href: '/collections/glass-vials', children: [] },
+        ],
+      },
+      {
+        label: 'Closures',
+        href: '/collections/closures',
+        children: [{ label: 'Caps', href: '/collections/caps', children: [] }],
+      },
+    ],
+  },
+  {
+    label: 'Resources',
+    href: null,
+    children: [
+      { label: 'About Us', href: '/pages/about-us', children: [] },
+      { label: 'Blog', href: '/blogs/news', children: [] },
+    ],
+  },
+];
+
+test.describe('Navigation Tree Helpers', () => {
+  test('NT-01: Check That Every Leaf Links to a Collection or Page', async () => {
+    expect(['/collections/glass', '/en-ca/pages/about-us', '/collections', '/products/jar', null].map(getNavigationTarget)).toEqual([
+      'collection',
+      'page',
+      null,
+      null,
+      null,
+    ]);
+    // Items with a submenu aren't leaves, so Products without a link is fine
+    expect(findUnresolvedLeaves(MENU)).toEqual(['Resources > Blog (/blogs/news)']);
+  });
+
+  test('NT-02: Report a Menu Change as a Structural Diff', async () => {
+    const changed: NavigationNode[] = structuredClone(MENU);
+    const products = changed[0];
+    // Closures column removed, a new column added, a link retargeted and a column reordered
+    products.children.splice(1, 1, { label: 'Plastic', href: '/collections/plastic', children: [] });
+    products.children[0].children.reverse();
+    products.children[0].children[0].href = '/collections/vials';
+
+    const differences = diffNavigationTrees(MENU, changed);
+    expect(diffNavigationTrees(MENU, structuredClone(MENU))).toEqual([]);
+    expect(formatNavigationDiff(differences).split('\n')).toEqual([
+      'Navigation: snapshot (-) vs store (+)',
+      '~ Products > Glass > Glass Vials: /collections/glass-vials -> /collections/vials',
+      '~ Products > Glass order: Glass Bottles & Jars, Glass Vials -> Glass Vials, Glass Bottles & Jars',
+      '- Products > Closures (/collections/closures), with 1 nested item(s)',
+      '+ Products > Plastic (/collections/plastic)',
+    ]);
+  });
+
+  test('NT-03: Write the Snapshot Only When Missing or Updating', async ({}, testInfo) => {
+    const snapshotPath = testInfo.outputPath('navigationSnapshot.json');
+    const changed: NavigationNode[] = structuredClone(MENU);
+    changed[1].children.pop();
+
+    expect(checkNavigationSnapshot(MENU, 'none', snapshotPath).status).toBe('missing');
+    expect(fs.existsSync(snapshotPath)).toBe(false);
+    expect(checkNavigationSnapshot(MENU, 'missing', snapshotPath).status).toBe('created');
+    expect(checkNavigationSnapshot(MENU, 'missing', snapshotPath).status).toBe('matched');
+
+    const result = checkNavigationSnapshot(changed, 'missing', snapshotPath);
+    expect(result).toEqual({
+      status: 'changed',
+      differences: [{ kind: 'removed', path: 'Resources > Blog', expected: '/blogs/news', nested: 0 }],
+    });
+    expect(checkNavigationSnapshot(changed, 'changed', snapshotPath).status).toBe('updated');
+    expect(JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'))).toEqual(changed);
+  });
+});
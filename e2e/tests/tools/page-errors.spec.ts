@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { config } from '../../helpers/config';
+import { filterPageEvents, formatPageEvents, isFirstPartyUrl, type PageEvent } from '../../helpers/pageErrors';
+import { PAGE_ERROR_ALLOWLIST } from '../../data/pageErrorAllowlist';
+
+/**
+ * Events of one test run: a theme error, two kinds of known noise and a broken theme asset
+ */
+const EVENTS: PageEvent[] = [
+  { type: 'pageerror', message: "Cannot read properties of null (reading 'classList')", url: `${config.storeUrl}/` },
+  { type: 'http-error', message: 'GET 401 Unauthorized', url: `${config.storeUrl}/password` },
+  { type: 'request-failed', message: 'GET failed: net::ERR_ABORTED', url: `${config.storeUrl}/collections/all` },
+  { type: 'http-error', message: 'GET 404 Not Found', url: 'https://cdn.shopify.com/s/files/1/theme/mega-menu.js' },
+];
+
+test.describe('Page Error Helpers', () => {
+  test('PE-01: Check Only Store and CDN Requests', async () => {
+    expect(isFirstPartyUrl(`${config.storeUrl}/cart.js`)).toBe(true);
+    expect(isFirstPartyUrl('https://cdn.shopify.com/s/files/1/theme.css')).toBe(true);
+    expect(isFirstPartyUrl('https://www.googletagmanager.com/gtm.js')).toBe(false);
+    expect(isFirstPartyUrl('data:image/png;base64,')).toBe(false);
+  });
+
+  test('PE-02: Separate Allowlisted Noise From Reported Errors', async () => {
+    const { reported, allowed } = filterPageEvents(EVENTS, PAGE_ERROR_ALLOWLIST);
+
+    expect(reported).toEqual([EVENTS[0], EVENTS[3]]);
+    expect(allowed).toEqual([EVENTS[1], EVENTS[2]]);
+
+    // An entry limited to one event type doesn't cover the others
+    const perFile = [{ type: 'console' as const, pattern: /mega-menu/, reason: 'Example' }];
+    expect(filterPageEvents([EVENTS[3]], perFile).reported).toEqual([EVENTS[3]]);
+    expect(filterPageEvents([EVENTS[3]], [{ pattern: /mega-menu/, reason: 'Example' }]).reported).toEqual([]);
+  });
+
+  test('PE-03: Format One Line per Event', async () => {
+    expect(formatPageEvents([EVENTS[0], EVENTS[3]]).split('\n')).toEqual([
+      `[pageerror] Cannot read properties of null (reading 'classList') (${config.storeUrl}/)`,
+      '[http-error] GET 404 Not Found (https://cdn.shopify.com/s/files/1/theme/mega-menu.js)',
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { checkBudget, formatBudgetChecks, getPageTemplate, loadBudget } from '../../helpers/performance';
+
+test.describe('Performance Budget Checks', () => {
+  test('PB-01: Map URLs to Page Templates', async () => {
+    expect(getPageTemplate('https://store.test/')).toBe('home');
+    expect(getPageTemplate('https://store.test/collections/glass-bottles-jars-1?page=2')).toBe('collection');
+    expect(getPageTemplate('https://store.test/collections/glass-bottles-jars-1/products/jar')).toBe('product');
+    expect(getPageTemplate('https://store.test/products/jar?variant=1')).toBe('product');
+    expect(getPageTemplate('https://store.test/cart')).toBeNull();
+  });
+
+  test('PB-02: Every Template Has a Complete Budget File', async () => {
+    for (const template of ['home', 'collection', 'product'] as const) {
+      expect(Object.keys(loadBudget(template)).sort()).toEqual(
+        ['cls', 'inp', 'lcp', 'requestCount', 'tbt', 'transferSize']
+      );
+    }
+  });
+
+  test('PB-03: Flag Metrics Over Budget and Skip Unsupported Ones', async () => {
+    const checks = checkBudget(
+      { url: 'https://store.test/', lcp: 3100, cls: null, inp: 80, tbt: 0, transferSize: 1000, requestCount: 40 },
+      { lcp: 2500, cls: 0.1, inp: 200, tbt: 300, transferSize: 2000, requestCount: 100 }
+    );
+
+    expect(checks.map((check) => [check.metric, check.status])).toEqual([
+      ['lcp', 'fail'],
+      ['cls', 'not measured'],
+      ['inp', 'pass'],
+      ['tbt', 'pass'],
+      ['transferSize', 'pass'],
+      ['requestCount', 'pass'],
+    ]);
+    expect(formatBudgetChecks('https://store.test/', 'home', checks)).toContain('lcp                   3100        2500  fail');
+  });
+});
@@ -0,0 +1,27 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_QUANTITY_RULE, isQuantityAllowed, roundToQuantityRule } from '../../helpers/quantityRule';
+import { parsePrice, parseUnitPrice } from '../../helpers/price';
+
+test.describe('Quantity Rule and Price Helpers', () => {
+  test('QR-01: Check and Round Quantities to Case Pack Rules', async () => {
+    const casePack = { min: 6, max: 30, increment: 6 };
+
+    expect([0, 5, 6, 9, 12, 30, 36].filter((quantity) => isQuantityAllowed(quantity, casePack))).toEqual([6, 12, 30]);
+    expect([1, 6, 7, 13, 29, 40].map((quantity) => roundToQuantityRule(quantity, casePack))).toEqual([6, 6, 12, 18, 30, 30]);
+
+    // Quantities are multiples of the increment, not offsets from the minimum
+    const offsetMinimum = { min: 2, max: 12, increment: 5 };
+    expect([2, 5, 7, 10, 12].filter((quantity) => isQuantityAllowed(quantity, offsetMinimum))).toEqual([5, 10]);
+    expect([1, 6, 13].map((quantity) => roundToQuantityRule(quantity, offsetMinimum))).toEqual([5, 10, 10]);
+    expect(roundToQuantityRule(3, DEFAULT_QUANTITY_RULE)).toBe(3);
+    expect(isQuantityAllowed(1.5, DEFAULT_QUANTITY_RULE)).toBe(false);
+  });
+
+  test('QR-02: Parse Prices and Unit Prices', async () => {
+    expect(parsePrice('$1,234.56')).toBe(1234.56);
+    expect(parsePrice('From $3.00 USD')).toBe(3);
+    expect(parseUnitPrice('$2.49/ea')).toEqual({ amount: 2.49, per: 'ea' });
+    expect(parseUnitPrice('Unit price $0.21 USD per 100 ml')).toEqual({ amount: 0.21, per: '100 ml' });
+    expect(parseUnitPrice('$14.95')).toBeNull();
+  });
+});
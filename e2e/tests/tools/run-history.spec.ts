@@ -0,0 +1,157 @@
+import { test, expect } from '@playwright/test';
+import {
+  type RunHistory,
+  type RunRecord,
+  type TestOutcome,
+  appendRun,
+  buildSlackPayload,
+  compareThirdPartyProfiles,
+  computeDurationTrends,
+  computeFlakiness,
+  findNewlyFailing,
+  formatTestHistory,
+  getTestId,
+  summarizeLatestRun,
+} from '../../helpers/runHistory';
+
+/**
+ * Builds a run of PN-09 and CT-01 in chromium with the given outcomes and durations
+ */
+function run(day: number, outcomes: [TestOutcome, TestOutcome], durations: [number, number] = [1000, 2000]): RunRecord {
+  const tests = (['PN-09', 'CT-01'] as const).map((testId, index) => ({
+    testId,
+    title: `${testId}: Example`,
+    file: 'tests/example.spec.ts',
+    project: 'chromium',
+    outcome: outcomes[index],
+    retries: outcomes[index] === 'flaky' ? 1 : 0,
+    duration: durations[index],
+  }));
+  return {
+    startedAt: `2026-10-${String(day).padStart(2, '0')}T08:00:00.000Z`,
+    duration: 60000,
+    status: outcomes.includes('unexpected') ? 'failed' : 'passed',
+    profile: 'us-preview',
+    themeId: '154660733174',
+    branch: 'main',
+    commit: null,
+    tests,
+  };
+}
+
+function history(...runs: RunRecord[]): RunHistory {
+  return { version: 1, runs };
+}
+
+test.describe('Run History', () => {
+  test('RH-01: Extract Test IDs and Keep Only the Latest Runs', async () => {
+    expect(getTestId('PN-09: Navigate to Glass Bottles & Jars')).toBe('PN-09');
+    expect(getTestId('AX-1: Home Page')).toBe('AX-1');
+    expect(getTestId('authenticate')).toBeNull();
+
+    let stored = history();
+    for (const day of [1, 2, 3]) stored = appendRun(stored, run(day, ['expected', 'expected']), 2);
+    expect(stored.runs.map((entry) => entry.startedAt.slice(0, 10))).toEqual(['2026-10-02', '2026-10-03']);
+  });
+
+  test('RH-02: Compute Flakiness Rates and Newly Failing Tests', async () => {
+    const stored = history(
+      run(1, ['flaky', 'expected']),
+      run(2, ['expected', 'unexpected']),
+      run(3, ['skipped', 'expected']),
+      run(4, ['flaky', 'unexpected'])
+    );
+
+    expect(computeFlakiness(stored)).toEqual([
+      { key: 'chromium › PN-09: Example', runs: 3, flaky: 2, failed: 0, flakinessRate: 2 / 3 },
+    ]);
+    // CT-01 passed in run 3, so its failure in run 4 is new
+    expect(findNewlyFailing(stored)).toEqual(['chromium › CT-01: Example']);
+    // Failing again right after a failure is not new
+    expect(findNewlyFailing(history(run(1, ['expected', 'unexpected']), run(2, ['expected', 'unexpected'])))).toEqual([]);
+  });
+
+  test('RH-03: Compare the Slowest Tests With Their Average', async () => {
+    const trends = computeDurationTrends(
+      history(run(1, ['expected', 'expected'], [1000, 2000]), run(2, ['expected', 'expected'], [3000, 2000]), run(3, ['expected', 'expected'], [2500, 1000]))
+    );
+
+    expect(trends).toEqual([
+      { key: 'chromium › PN-09: Example', latest: 2500, average: 2000, change: 500 },
+      { key: 'chromium › CT-01: Example', latest: 1000, average: 2000, change: -1000 },
+    ]);
+  });
+
+  test('RH-04: Build the Slack Payload and Single-Test History', async () => {
+    const stored = history(run(1, ['expected', 'expected']), run(2, ['flaky', 'unexpected']));
+    const summary = summarizeLatestRun(stored);
+    expect(summary.status).toBe('failed');
+    expect(summary.totals).toEqual({ expected: 0, unexpected: 1, flaky: 1, skipped: 0 });
+
+    const payload = JSON.stringify(buildSlackPayload(summary, { runUrl: 'https://github.test/runs/1' }));
+    expect(payload).toContain('"color":"danger"');
+    expect(payload).toContain('*Newly failing:*\\n• chromium › CT-01: Example');
+    expect(payload).toContain('https://github.test/runs/1');
+    expect(payload).toContain('Profile: us-preview · Theme: 154660733174');
+    expect(payload).not.toContain('View Report');
+
+    const report = formatTestHistory(stored, 'PN-09');
+    expect(report.split('\n')).toEqual([
+      'PN-09: Example',
+      '',
+      'Run                   Project         Outcome     Retries  Duration',
+      '2026-10-01 08:00:00   chromium        expected          0      1.0s',
+      '2026-10-02 08:00:00   chromium        flaky             1      1.0s',
+      '',
+      'Flaky in chromium › PN-09: Example: 50% (1/2 runs)',
+    ]);
+    expect(formatTestHistory(stored, 'SR-01')).toBe('No recorded runs of SR-01 (2 run(s) in the history)');
+  });
+
+  test('RH-05: Compare Flakiness and Duration per Third-Party Profile', async () => {
+    const withProfile = (record: RunRecord, thirdParty: string) => ({
+      ...record,
+      tests: record.tests.map((entry) => ({ ...entry, thirdParty })),
+    });
+    const stored = history(
+      withProfile(run(1, ['flaky', 'expected'], [3000, 5000]), 'allow'),
+      withProfile(run(2, ['expected', 'unexpected'], [2000, 4000]), 'allow'),
+      withProfile(run(3, ['expected', 'expected'], [1000, 2000]), 'block'),
+      // Runs recorded without a profile are left out
+      run(4, ['flaky', 'flaky'])
+    );
+
+    expect(compareThirdPartyProfiles(stored)).toEqual([
+      { profile: 'allow', runs: 4, flaky: 1, failed: 1, flakinessRate: 0.25, averageDuration: 3500 },
+      { profile: 'block', runs: 2, flaky: 0, failed: 0, flakinessRate: 0, averageDuration: 1500 },
+    ]);
+  });
+
+  test('RH-06: Track Tests Sharing an ID in Different Describes Separately', async () => {
+    const perCollection = (day: number, outcomes: [TestOutcome, TestOutcome]): RunRecord => ({
+      ...run(day, outcomes),
+      tests: ['Glass Bottles & Jars', 'Plastic Bottles'].map((collection, index) => ({
+        testId: 'PN-02',
+        title: `Product Navigation Flow - ${collection} › PN-02: Open a Product`,
+        file: 'tests/navigation/product-navigation.spec.ts',
+        project: 'chromium',
+        outcome: outcomes[index],
+        retries: outcomes[index] === 'flaky' ? 1 : 0,
+        duration: 1000,
+      })),
+    });
+    const stored = history(perCollection(1, ['expected', 'expected']), perCollection(2, ['flaky', 'unexpected']));
+
+    expect(computeFlakiness(stored).map((stat) => stat.key)).toEqual([
+      'chromium › Product Navigation Flow - Glass Bottles & Jars › PN-02: Open a Product',
+    ]);
+    expect(findNewlyFailing(stored)).toEqual(['chromium › Product Navigation Flow - Plastic Bottles › PN-02: Open a Product']);
+
+    const report = formatTestHistory(stored, 'PN-02').split('\n');
+    expect(report.filter((line) => line.startsWith('Product Navigation Flow'))).toEqual([
+      'Product Navigation Flow - Glass Bottles & Jars › PN-02: Open a Product',
+      'Product Navigation Flow - Plastic Bottles › PN-02: Open a Product',
+    ]);
+    expect(report.at(-1)).toBe('Flaky in chromium › Product Navigation Flow - Glass Bottles & Jars › PN-02: Open a Product: 50% (1/2 runs)');
+  });
+});
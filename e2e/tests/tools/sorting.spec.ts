@@ -0,0 +1,33 @@
+import { test, expect } from '@playwright/test';
+import { compareTitles, findOrderViolations } from '../../helpers/sorting';
+
+test.describe('Sort Order Helpers', () => {
+  test('ST-01: Compare Mixed-Case, Unit-Heavy Titles Like Shopify', async () => {
+    const titles = [
+      '8 oz Clear Glass Straight Sided Jar 70-400',
+      '12 OZ FLT 70G/450 MAYONNAISE RP-1014 (6)',
+      '12 oz Clear Glass Round Tall Mayonnaise Jar 70-450',
+      '120 ML Amber Boston Round 22-400',
+      'Amber  Glass Jar',
+      'amber glass bottle',
+    ];
+
+    expect([...titles].sort(compareTitles)).toEqual([
+      '12 oz Clear Glass Round Tall Mayonnaise Jar 70-450',
+      '12 OZ FLT 70G/450 MAYONNAISE RP-1014 (6)',
+      '120 ML Amber Boston Round 22-400',
+      '8 oz Clear Glass Straight Sided Jar 70-400',
+      'amber glass bottle',
+      'Amber  Glass Jar',
+    ]);
+  });
+
+  test('ST-02: Report Every Out-of-Order Pair and Allow Ties', async () => {
+    const prices = [1, 3, 3, 2, 5, 4];
+
+    expect(findOrderViolations(prices, (a, b) => a - b)).toEqual([
+      { index: 3, previous: 3, current: 2 },
+      { index: 5, previous: 5, current: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { test, expect } from '@playwright/test';
+import {
+  diffSpecifications,
+  formatSpecificationDiff,
+  normalizeSpecificationKey,
+  parseSpecifications,
+} from '../../helpers/specifications';
+import { TARGET_PRODUCT } from '../../data/productNavigationData';
+
+test.describe('Product Specification Helpers', () => {
+  test('SP-01: Parse Product Details Into a Normalized Map', async () => {
+    // Labels and values on separate lines, a trailing space in "Color ", and inline pairs
+    const text = [
+      'Capacity:',
+      '12 OZ',
+      'Material:',
+      'Glass',
+      'Color :',
+      '  Clear   Flint ',
+      'Country of Origin: China',
+      'Neck Finish: 70-450',
+      'Notes:',
+    ].join('\n');
+
+    expect(parseSpecifications(text)).toEqual({
+      capacity: '12 OZ',
+      material: 'Glass',
+      color: 'Clear Flint',
+      countryOfOrigin: 'China',
+      neckFinish: '70-450',
+    });
+    expect(['Color ', 'Country of Origin:', 'UPC / EAN', 'countryOfOrigin'].map(normalizeSpecificationKey)).toEqual([
+      'color',
+      'countryOfOrigin',
+      'upcEan',
+      'countryOfOrigin',
+    ]);
+  });
+
+  test('SP-02: Report Every Missing, Wrong and Extra Attribute in One Diff', async () => {
+    const differences = diffSpecifications(
+      { capacity: '12 OZ', material: 'Plastic', neckFinish: '70-450', countryOfOrigin: 'China' },
+      TARGET_PRODUCT.specifications
+    );
+
+    expect(differences).toEqual([
+      { key: 'material', kind: 'wrong', expected: 'Glass', actual: 'Plastic' },
+      { key: 'color', kind: 'missing', expected: 'Clear Flint' },
+      { key: 'neckFinish', kind: 'extra', actual: '70-450' },
+    ]);
+    expect(formatSpecificationDiff(differences).split('\n')).toEqual([
+      '~ material: expected "Glass", got "Plastic"',
+      '- color: Clear Flint (missing)',
+      '+ neckFinish: 70-450 (not expected)',
+    ]);
+    // Expected data may use display labels
+    expect(diffSpecifications({ countryOfOrigin: 'China' }, { 'Country of Origin': 'China' })).toEqual([]);
+  });
+});
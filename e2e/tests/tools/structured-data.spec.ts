@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import {
+  availabilityToStockStatus,
+  findJsonLdNodes,
+  parseJsonLd,
+  readBreadcrumbNode,
+  readProductNode,
+  validateBreadcrumbs,
+  validateProductData,
+  validateSeoMetadata,
+} from '../../helpers/structuredData';
+
+const PRODUCT_BLOCK = JSON.stringify({
+  '@context': 'http://schema.org/',
+  '@type': 'Product',
+  name: '12 oz Clear Glass Round Tall Mayonnaise Jar 70-450',
+  url: 'https://store.test/products/12-oz-flt-70g-450-mayo-rp-1014-6',
+  sku: '40220148',
+  brand: { '@type': 'Brand', name: 'Richards Packaging' },
+  image: ['https://cdn.shopify.com/jar.jpg'],
+  offers: [
+    { '@type': 'Offer', sku: '40220148', price: '14.95', priceCurrency: 'USD', availability: 'http://schema.org/InStock' },
+    { '@type': 'Offer', sku: '40220149', price: 89.7, priceCurrency: 'USD', availability: 'http://schema.org/OutOfStock' },
+  ],
+});
+
+const BREADCRUMB_BLOCK = JSON.stringify({
+  '@context': 'https://schema.org',
+  '@graph': [
+    {
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        { '@type': 'ListItem', position: 2, name: 'Glass Bottles & Jars', item: 'https://store.test/collections/glass' },
+        { '@type': 'ListItem', position: 1, name: 'Home', item: { '@id': 'https://store.test/' } },
+        { '@type': 'ListItem', position: 3, name: '12 oz Jar' },
+      ],
+    },
+    { '@type': 'Organization', name: 'Richards Packaging' },
+  ],
+});
+
+test.describe('Structured Data Helpers', () => {
+  test('JL-01: Read Product and Offer Nodes From JSON-LD Blocks', async () => {
+    const document = parseJsonLd([PRODUCT_BLOCK, BREADCRUMB_BLOCK, '{ not json']);
+
+    expect(document.nodes.map((node) => node['@type'])).toEqual(['Product', 'BreadcrumbList', 'Organization']);
+    expect(document.errors).toHaveLength(1);
+
+    const product = readProductNode(findJsonLdNodes(document, 'Product')[0]);
+    expect(product).toMatchObject({ name: '12 oz Clear Glass Round Tall Mayonnaise Jar 70-450', sku: '40220148', brand: 'Richards Packaging' });
+    expect(product.offers.map((offer) => [offer.sku, offer.price, offer.availability])).toEqual([
+      ['40220148', 14.95, 'InStock'],
+      ['40220149', 89.7, 'OutOfStock'],
+    ]);
+    expect(validateProductData(product)).toEqual([]);
+    expect(availabilityToStockStatus('InStock')).toBe('In stock');
+    expect(availabilityToStockStatus('OutOfStock')).toBe('Out of stock');
+
+    const incomplete = readProductNode({ '@type': 'Product', name: 'Jar', offers: { sku: 'A1', availability: 'PreOrder' } });
+    expect(validateProductData(incomplete)).toEqual([
+      'Product has no url',
+      'Product has no image',
+      'Offer 1 (A1) has no price',
+      'Offer 1 (A1) has no priceCurrency',
+      'Offer 1 (A1) has an unknown availability: PreOrder',
+    ]);
+  });
+
+  test('JL-02: Read and Validate Breadcrumbs', async () => {
+    const breadcrumbs = readBreadcrumbNode(findJsonLdNodes(parseJsonLd([BREADCRUMB_BLOCK]), 'BreadcrumbList')[0]);
+
+    expect(breadcrumbs).toEqual([
+      { position: 1, name: 'Home', url: 'https://store.test/' },
+      { position: 2, name: 'Glass Bottles & Jars', url: 'https://store.test/collections/glass' },
+      { position: 3, name: '12 oz Jar', url: null },
+    ]);
+    expect(validateBreadcrumbs(breadcrumbs)).toEqual([]);
+    expect(validateBreadcrumbs([{ position: 1, name: 'Home', url: null }, { position: 3, name: '', url: null }])).toEqual([
+      'Breadcrumb 1 (Home) has no URL',
+      'Breadcrumb 2 has position 3',
+      'Breadcrumb 2 has no name',
+    ]);
+  });
+
+  test('JL-03: Flag Canonical Parameters and Incomplete SEO Metadata', async () => {
+    const metadata = {
+      title: 'Glass Bottles & Jars',
+      canonical: 'https://store.test/collections/glass',
+      description: 'Glass jars and bottles',
+      openGraph: { title: 'Glass', type: 'website', url: 'https://store.test/collections/glass', image: 'https://cdn.shopify.com/x.jpg', description: 'Glass' },
+      hreflang: [
+        { lang: 'en-US', href: 'https://store.test/collections/glass' },
+        { lang: 'x-default', href: 'https://store.test/collections/glass' },
+      ],
+    };
+    expect(validateSeoMetadata(metadata)).toEqual([]);
+
+    expect(
+      validateSeoMetadata({
+        ...metadata,
+        canonical: 'https://store.test/collections/glass?sort_by=title-ascending&preview_theme_id=1',
+        description: null,
+        openGraph: { ...metadata.openGraph, image: '' },
+        hreflang: [{ lang: 'english', href: '/collections/glass' }],
+      })
+    ).toEqual([
+      'The page has no meta description',
+      'The canonical URL contains preview_theme_id: https://store.test/collections/glass?sort_by=title-ascending&preview_theme_id=1',
+      'The canonical URL contains sort_by: https://store.test/collections/glass?sort_by=title-ascending&preview_theme_id=1',
+      'The page has no og:image',
+      'hreflang "english" is not a language code',
+      'hreflang english points to /collections/glass',
+    ]);
+  });
+});
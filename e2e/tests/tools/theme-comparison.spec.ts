@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import {
+  diffPageStates,
+  flattenNavigation,
+  formatComparisonReport,
+  themePath,
+  type PageState,
+} from '../../helpers/themeComparison';
+
+const LIVE: PageState[] = [
+  {
+    name: 'home',
+    path: '/',
+    headings: ['h2 Featured collections'],
+    links: ['Shop glass -> /collections/glass'],
+    navigation: [
+      {
+        label: 'Products',
+        href: null,
+        children: [
+          { label: 'Glass Bottles & Jars', href: '/collections/glass', children: [] },
+          { label: 'Closures', href: '/collections/closures', children: [] },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'collection: Glass',
+    path: '/collections/glass',
+    headings: ['h2 Glass'],
+    links: [],
+    collection: { displayedCount: 41, handles: ['jar', 'bottle'] },
+  },
+];
+
+test.describe('Theme Comparison Diff', () => {
+  test('TD-01: Build Theme URLs for the Published and Preview Theme', async () => {
+    expect(themePath('/', '154660733174')).toBe('/?preview_theme_id=154660733174');
+    expect(themePath('/collections/glass?page=2', null)).toBe('/collections/glass?page=2&preview_theme_id=');
+    expect(flattenNavigation(LIVE[0].navigation!)).toEqual([
+      'Products',
+      'Products > Glass Bottles & Jars (/collections/glass)',
+      'Products > Closures (/collections/closures)',
+    ]);
+  });
+
+  test('TD-02: Report Added, Removed and Changed State per Page and Section', async () => {
+    const preview: PageState[] = structuredClone(LIVE);
+    preview[0].navigation![0].children[1] = { label: 'Caps & Closures', href: '/collections/closures', children: [] };
+    preview[0].headings.push('h2 New arrivals');
+    preview[1].collection = { displayedCount: 40, handles: ['bottle', 'jar'] };
+
+    expect(diffPageStates(LIVE, LIVE)).toEqual([]);
+    expect(diffPageStates(LIVE, preview)).toEqual([
+      { page: 'home', section: 'navigation', kind: 'removed', live: 'Products > Closures (/collections/closures)' },
+      { page: 'home', section: 'navigation', kind: 'added', preview: 'Products > Caps & Closures (/collections/closures)' },
+      { page: 'home', section: 'headings', kind: 'added', preview: 'h2 New arrivals' },
+      { page: 'collection: Glass', section: 'product count', kind: 'changed', live: '41', preview: '40' },
+      { page: 'collection: Glass', section: 'products order', kind: 'changed', live: 'jar, bottle', preview: 'bottle, jar' },
+    ]);
+  });
+
+  test('TD-03: Report Missing Pages and Format a Readable Report', async () => {
+    const differences = diffPageStates(LIVE, [LIVE[0], { ...LIVE[1], name: 'collection: Glass Jars' }]);
+
+    expect(differences).toEqual([
+      { page: 'collection: Glass', section: 'page', kind: 'removed', live: '/collections/glass' },
+      { page: 'collection: Glass Jars', section: 'page', kind: 'added', preview: '/collections/glass' },
+    ]);
+    expect(formatComparisonReport(differences, '154660733174')).toBe(
+      [
+        'Theme comparison: published theme (-) vs preview theme 154660733174 (+)',
+        '2 difference(s)',
+        '',
+        '== collection: Glass',
+        '  page',
+        '    - /collections/glass',
+        '',
+        '== collection: Glass Jars',
+        '  page',
+        '    + /collections/glass',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { config } from '../../helpers/config';
+import {
+  findThirdPartyStub,
+  formatThirdPartyReport,
+  isThirdPartyUrl,
+  summarizeThirdPartyRequests,
+  type ThirdPartyRequest,
+} from '../../helpers/thirdParty';
+import { THIRD_PARTY_OPTIONS } from '../../data/thirdPartyStubs';
+
+/**
+ * Third-party requests of one test run with the 'stub' profile
+ */
+const REQUESTS: ThirdPartyRequest[] = [
+  { url: 'https://www.googletagmanager.com/gtag/js?id=G-1', host: 'www.googletagmanager.com', resourceType: 'script', action: 'stubbed' },
+  { url: 'https://static.klaviyo.com/onsite/js/klaviyo.js', host: 'static.klaviyo.com', resourceType: 'script', action: 'stubbed' },
+  { url: 'https://static.klaviyo.com/onsite/js/fender.js', host: 'static.klaviyo.com', resourceType: 'script', action: 'stubbed' },
+  { url: 'https://fonts.shopifycdn.com/assistant.woff2', host: 'fonts.shopifycdn.com', resourceType: 'font', action: 'allowed' },
+];
+
+test.describe('Third-Party Request Helpers', () => {
+  test('TP-01: Treat Everything Outside the Store and CDN as Third-Party', async () => {
+    expect(isThirdPartyUrl('https://connect.facebook.net/en_US/fbevents.js')).toBe(true);
+    expect(isThirdPartyUrl(`${config.storeUrl}/products/jar`)).toBe(false);
+    expect(isThirdPartyUrl('https://cdn.shopify.com/s/files/1/theme.js')).toBe(false);
+    expect(isThirdPartyUrl('data:image/svg+xml;base64,')).toBe(false);
+  });
+
+  test('TP-02: Stub Known Scripts With No-Op Stand-Ins', async () => {
+    const stub = (url: string) => findThirdPartyStub(url, THIRD_PARTY_OPTIONS.stubs)?.name;
+
+    expect(stub('https://www.googletagmanager.com/gtag/js?id=G-1')).toBe('Google Tag Manager');
+    expect(stub('https://connect.facebook.net/en_US/fbevents.js')).toBe('Meta Pixel');
+    expect(stub('https://monorail-edge.shopifysvc.com/v1/produce')).toBe('Shopify analytics');
+    expect(stub('https://widget.trustpilot.com/bootstrap/v5/tp.widget.bootstrap.min.js')).toBeUndefined();
+    expect(THIRD_PARTY_OPTIONS.alwaysAllowed.some((pattern) => pattern.test(REQUESTS[3].url))).toBe(true);
+  });
+
+  test('TP-03: Count Requests per Host and Action', async () => {
+    expect(summarizeThirdPartyRequests(REQUESTS)).toEqual([
+      { host: 'static.klaviyo.com', allowed: 0, blocked: 0, stubbed: 2 },
+      { host: 'fonts.shopifycdn.com', allowed: 1, blocked: 0, stubbed: 0 },
+      { host: 'www.googletagmanager.com', allowed: 0, blocked: 0, stubbed: 1 },
+    ]);
+    expect(formatThirdPartyReport('stub', REQUESTS).split('\n').slice(0, 3)).toEqual([
+      'Profile: stub, 4 third-party request(s)',
+      'host                                      allowed  blocked  stubbed',
+      'static.klaviyo.com                              0        0        2',
+    ]);
+  });
+});
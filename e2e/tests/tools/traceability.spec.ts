@@ -0,0 +1,130 @@
+import { test, expect } from '@playwright/test';
+import {
+  checkTraceability,
+  formatTraceabilityReport,
+  hasTraceabilityGaps,
+  loadTraceabilitySources,
+  parseSpecFile,
+  parseTestPlan,
+  renderCoverageMatrix,
+} from '../../helpers/traceability';
+
+const PLAN = `# Cart Test Plan
+
+## Test Cases
+
+### CT-01: Add {product.name} to Cart
+
+**Steps:**
+1. Navigate to {product.url}
+2. Click "Add to cart"
+
+**Expected Results:**
+- The cart drawer opens
+- The line item shows {product.name}
+
+### CT-02: Remove a Line Item
+
+**Steps:**
+1. Open the cart
+2. Remove the line item
+
+### CT-03: Update Quantity
+
+**Steps:**
+1. Open the cart
+`;
+
+const SPEC = `// Test plan: e2e/testplan/e2e-cart-test-plan.md
+import { test } from '../../fixtures';
+
+for (const product of PRODUCTS) {
+  test(\`CT-01: Add \${product.name} to Cart\`, async ({ page }) => {
+    await test.step(\`Navigate to \${ product.url }\`, async () => {});
+    await test.step('Click "Add to cart"', async () => {});
+  });
+}
+
+test('CT-02: Remove a Line Item', async () => {
+  await test.step('Open the  cart', async () => {});
+  await test.step('Empty the cart', async () => {});
+});
+
+test('CT-04: Apply a Discount Code', async () => {
+  await test.step('Open the cart', async () => {});
+});
+
+test('helper without an ID', async () => {
+  await test.step('Not part of any case', async () => {});
+});
+`;
+
+test.describe('Test Plan Traceability', () => {
+  test('TR-01: Parse Cases, Steps and Expected Results From a Plan', async () => {
+    const plan = parseTestPlan(PLAN, 'e2e/testplan/e2e-cart-test-plan.md');
+
+    expect(plan.title).toBe('Cart Test Plan');
+    expect(plan.cases.map((planned) => planned.id)).toEqual(['CT-01', 'CT-02', 'CT-03']);
+    expect(plan.cases[0]).toEqual({
+      id: 'CT-01',
+      title: 'CT-01: Add {product.name} to Cart',
+      steps: ['Navigate to {product.url}', 'Click "Add to cart"'],
+      expectedResults: ['The cart drawer opens', 'The line item shows {product.name}'],
+    });
+  });
+
+  test('TR-02: Parse Test Titles and Step Names From Spec Source', async () => {
+    const spec = parseSpecFile(SPEC, 'e2e/tests/cart/cart.spec.ts');
+
+    expect(spec.plan).toBe('e2e/testplan/e2e-cart-test-plan.md');
+    expect(spec.cases.map(({ id, title, line }) => ({ id, title, line }))).toEqual([
+      { id: 'CT-01', title: 'CT-01: Add {product.name} to Cart', line: 5 },
+      { id: 'CT-02', title: 'CT-02: Remove a Line Item', line: 11 },
+      { id: 'CT-04', title: 'CT-04: Apply a Discount Code', line: 16 },
+    ]);
+    // Template literals keep their placeholders; steps of tests without an ID are dropped
+    expect(spec.cases[0].steps).toEqual(['Navigate to {product.url}', 'Click "Add to cart"']);
+  });
+
+  test('TR-03: Report Missing, Unplanned and Mismatched Cases', async () => {
+    const report = checkTraceability(
+      [parseTestPlan(PLAN, 'e2e/testplan/e2e-cart-test-plan.md')],
+      [
+        parseSpecFile(SPEC, 'e2e/tests/cart/cart.spec.ts'),
+        parseSpecFile("// Test plan: e2e/testplan/e2e-search-test-plan.md\ntest('SR-01: Search', async () => {});", 'e2e/tests/search/search.spec.ts'),
+        parseSpecFile("test('AX-01: Home Page', async () => {});", 'e2e/tests/accessibility/a11y.spec.ts'),
+      ]
+    );
+
+    expect(hasTraceabilityGaps(report)).toBe(true);
+    expect(report.matrix.map((row) => [row.id, row.status])).toEqual([
+      ['AX-01', 'no plan'],
+      ['CT-01', 'covered'],
+      ['CT-02', 'steps differ'],
+      ['CT-03', 'not implemented'],
+      ['CT-04', 'not planned'],
+      ['SR-01', 'not planned'],
+    ]);
+    expect(formatTraceabilityReport(report).split('\n')).toEqual([
+      'Traceability: 1 of 3 planned case(s) covered',
+      '  Missing plan: e2e/tests/search/search.spec.ts names e2e/testplan/e2e-search-test-plan.md, which doesn\'t exist',
+      '  Not implemented: CT-03: Update Quantity (e2e/testplan/e2e-cart-test-plan.md)',
+      '  Not planned: CT-04: Apply a Discount Code (e2e/tests/cart/cart.spec.ts:16)',
+      '  Not planned: SR-01: Search (e2e/tests/search/search.spec.ts:2)',
+      '  Steps differ: CT-02 (e2e/tests/cart/cart.spec.ts:11)',
+      '    - planned: Remove the line item',
+      '    + test.step: Empty the cart',
+    ]);
+  });
+
+  test('TR-04: Every Test Plan Matches Its Specs', async () => {
+    const { plans, specs } = loadTraceabilitySources();
+    const report = checkTraceability(plans, specs);
+
+    await test.info().attach('coverage-matrix.html', { body: renderCoverageMatrix(report), contentType: 'text/html' });
+    await test.info().attach('traceability', { body: formatTraceabilityReport(report), contentType: 'text/plain' });
+
+    expect(plans.map((plan) => plan.file)).toContain('e2e/testplan/e2e-product-navigation-test-plan.md');
+    expect(hasTraceabilityGaps(report), formatTraceabilityReport(report)).toBe(false);
+  });
+});
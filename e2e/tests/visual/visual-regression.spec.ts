@@ -0,0 +1,74 @@
+import { test, expect } from '../../fixtures';
+import { getCollection, TARGET_PRODUCT } from '../../data/productNavigationData';
+import { getDynamicRegionMasks, VISUAL_TAGS } from '../../helpers/visual';
+
+const GLASS_BOTTLES_JARS_COLLECTION = getCollection('Glass Bottles & Jars');
+
+// Chat launchers and review widgets load at different times; stubbing them keeps screenshots stable
+test.use({ thirdPartyProfile: 'stub' });
+
+test.describe('Visual Regression - Key Templates', () => {
+  test('VR-01: Homepage Header', { tag: VISUAL_TAGS.homeHeader }, async ({ page }) => {
+    await test.step('Navigate to homepage at /', async () => {
+      await page.goto('/');
+    });
+
+    await test.step('Compare the header with the baseline', async () => {
+      const header = page.locator('.header-wrapper, header').first();
+      await expect(header).toHaveScreenshot('home-header.png', { mask: getDynamicRegionMasks(page) });
+    });
+  });
+
+  test('VR-02: Open Mega Menu', { tag: VISUAL_TAGS.megaMenu }, async ({ page, navigationPage }) => {
+    await test.step('Open the Products mega menu', async () => {
+      await page.goto('/');
+      test.skip((await navigationPage.getMenuLayout()) !== 'mega-menu', 'Below the desktop breakpoint the menu is a drawer');
+      await navigationPage.openProductsMenu();
+    });
+
+    await test.step('Compare the open mega menu with the baseline', async () => {
+      await expect(page).toHaveScreenshot('mega-menu.png', { mask: getDynamicRegionMasks(page) });
+    });
+  });
+
+  test('VR-03: Mobile Menu Drawer', { tag: VISUAL_TAGS.mobileMenu }, async ({ page, navigationPage }) => {
+    await test.step('Open the Products section of the menu drawer', async () => {
+      await page.goto('/');
+      test.skip((await navigationPage.getMenuLayout()) !== 'drawer', 'From the desktop breakpoint up the menu is a mega menu');
+      await navigationPage.openProductsMenu();
+    });
+
+    await test.step('Compare #MenuDrawer with the baseline', async () => {
+      await expect(navigationPage.menuDrawer).toHaveScreenshot('mobile-menu-drawer.png', {
+        mask: getDynamicRegionMasks(page),
+      });
+    });
+  });
+
+  test('VR-04: Collection Grid', { tag: VISUAL_TAGS.collectionGrid }, async ({ page, collectionPage }) => {
+    await test.step(`Navigate to ${GLASS_BOTTLES_JARS_COLLECTION.url}`, async () => {
+      await page.goto(GLASS_BOTTLES_JARS_COLLECTION.url);
+      await collectionPage.waitForCollectionLoad();
+    });
+
+    await test.step('Compare the product grid with the baseline', async () => {
+      await expect(collectionPage.productGridContainer).toHaveScreenshot('collection-grid.png', {
+        mask: getDynamicRegionMasks(page),
+      });
+    });
+  });
+
+  test('VR-05: Product Page', { tag: VISUAL_TAGS.productPage }, async ({ page, productPage }) => {
+    await test.step(`Navigate to ${TARGET_PRODUCT.url}`, async () => {
+      await page.goto(TARGET_PRODUCT.url);
+      await expect(productPage.galleryViewer).toBeVisible();
+    });
+
+    await test.step('Compare the product page with the baseline', async () => {
+      await expect(page).toHaveScreenshot('product-page.png', {
+        fullPage: true,
+        mask: getDynamicRegionMasks(page),
+      });
+    });
+  });
+});